@@ -0,0 +1,292 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from './App';
+import { translateThought, translateToLanguages, TranslationResult } from './services/geminiService';
+import { clearHistory, deleteHistoryEntry, getAllHistory, putHistoryEntry } from './services/historyStore';
+import { TranslationError, errorGuidance } from './services/errors';
+import { statusGuidance } from './services/structuredOutput';
+import { defaultToneProfile } from './services/toneProfiles';
+import { createWebSpeechRecognizer } from './services/dictation';
+import { encodeShareFragment, parseShareFragment, sharedFromEntry } from './services/shareLink';
+import { HistoryEntry } from './types';
+import { createFakeRecognizer, final } from './test/fakeRecognizer';
+import { installFakeSpeechSynthesis } from './test/fakeSpeechSynthesis';
+
+vi.mock('./services/geminiService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/geminiService')>(),
+  translateThought: vi.fn(),
+  translateVariants: vi.fn(),
+  translateToLanguages: vi.fn(),
+  refineTranslation: vi.fn(),
+}));
+
+// IndexedDB isn't available in jsdom
+vi.mock('./services/historyStore', () => ({
+  getAllHistory: vi.fn(() => Promise.resolve([])),
+  putHistoryEntry: vi.fn(() => Promise.resolve()),
+  putHistoryEntries: vi.fn(() => Promise.resolve()),
+  deleteHistoryEntry: vi.fn(() => Promise.resolve()),
+  clearHistory: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('./services/dictation', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/dictation')>(),
+  createWebSpeechRecognizer: vi.fn(() => null),
+}));
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+}
+
+const storedEntry: HistoryEntry = {
+  id: '2026-01-01T00:00:00.000Z',
+  input: 'meeting tmrw cant come sry',
+  output: "Sorry, I can't make it to the meeting tomorrow.",
+  tone: defaultToneProfile.name,
+  toneProfile: defaultToneProfile,
+  outputLanguage: 'English',
+  timestamp: Date.parse('2026-01-01T00:00:00.000Z'),
+};
+
+const inputBox = () => screen.getByLabelText('Your Raw Thoughts');
+const historyPanel = () => screen.getByRole('complementary');
+const outputCard = () => screen.getByRole('main');
+
+async function submit(text: string) {
+  const user = userEvent.setup();
+  // user-event replaces the clipboard with its own stub, so the spy goes on that
+  const writeText = vi.spyOn(navigator.clipboard, 'writeText');
+  render(<App />);
+  await user.type(inputBox(), text);
+  await user.click(screen.getByRole('button', { name: /Translate Thought/ }));
+  return { user, writeText };
+}
+
+describe('App', () => {
+  beforeEach(() => {
+    vi.mocked(getAllHistory).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('streams the translation into the output card and records it in history', async () => {
+    const finished = deferred<TranslationResult>();
+    vi.mocked(translateThought).mockImplementation(async (_text, _tone, _language, onChunk) => {
+      onChunk('Hello');
+      onChunk(' there');
+      return finished.promise;
+    });
+
+    const { writeText } = await submit('helo ther');
+
+    expect(await within(outputCard()).findByText('Hello there')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Stop/ })).toBeInTheDocument();
+    expect(translateThought).toHaveBeenCalledWith('helo ther', defaultToneProfile, 'English', expect.any(Function), expect.objectContaining({ structured: true }));
+
+    finished.resolve({ text: 'Hello there.', status: 'ok', sourceLanguage: 'English' });
+
+    expect(await within(historyPanel()).findByText('Hello there.')).toBeInTheDocument();
+    expect(within(outputCard()).getByText('Hello there.')).toBeInTheDocument();
+    expect(putHistoryEntry).toHaveBeenCalledWith(expect.objectContaining({ input: 'helo ther', output: 'Hello there.' }));
+    expect(writeText).toHaveBeenCalledWith('Hello there.');
+  });
+
+  it('shows guidance for a failed request and saves nothing', async () => {
+    vi.mocked(translateThought).mockRejectedValue(new TranslationError('auth', 'API key not valid', 401));
+
+    await submit('some thought');
+
+    const alert = await screen.findByRole('alert');
+    expect(alert).toHaveTextContent(errorGuidance.auth.message);
+    expect(alert).toHaveTextContent(errorGuidance.auth.nextStep);
+    expect(putHistoryEntry).not.toHaveBeenCalled();
+    expect(within(historyPanel()).getByText('Your translations will appear here.')).toBeInTheDocument();
+  });
+
+  it('keeps the partial output when the request is stopped', async () => {
+    vi.mocked(translateThought).mockImplementation((_text, _tone, _language, onChunk, options) => {
+      onChunk('Half a');
+      return new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(new TranslationError('aborted', 'Stopped')));
+      });
+    });
+
+    const { user } = await submit('a long thought');
+    await within(outputCard()).findByText('Half a');
+    await user.click(screen.getByRole('button', { name: /Stop/ }));
+
+    expect(await screen.findByText('(stopped early)')).toBeInTheDocument();
+    expect(within(outputCard()).getByText('Half a')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(putHistoryEntry).not.toHaveBeenCalled();
+  });
+
+  it('shows clarifying questions instead of a translation', async () => {
+    vi.mocked(translateThought).mockResolvedValue({ text: '', status: 'needs_clarification', questions: ['Which meeting?'] });
+
+    const { writeText } = await submit('the thing');
+
+    expect(await screen.findByText(statusGuidance.needs_clarification)).toBeInTheDocument();
+    expect(screen.getByText('Which meeting?')).toBeInTheDocument();
+    expect(putHistoryEntry).not.toHaveBeenCalled();
+    expect(writeText).not.toHaveBeenCalled();
+  });
+
+  it('loads a stored entry back into the editor', async () => {
+    vi.mocked(getAllHistory).mockResolvedValue([storedEntry]);
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(await within(historyPanel()).findByText(storedEntry.output));
+
+    expect(inputBox()).toHaveValue(storedEntry.input);
+    expect(within(outputCard()).getByText(storedEntry.output)).toBeInTheDocument();
+    expect(translateThought).not.toHaveBeenCalled();
+  });
+
+  it('deletes a single entry', async () => {
+    vi.mocked(getAllHistory).mockResolvedValue([storedEntry]);
+    const user = userEvent.setup();
+    render(<App />);
+
+    await within(historyPanel()).findByText(storedEntry.output);
+    await user.click(within(historyPanel()).getByRole('button', { name: 'Delete' }));
+
+    expect(deleteHistoryEntry).toHaveBeenCalledWith(storedEntry.id);
+    expect(within(historyPanel()).queryByText(storedEntry.output)).not.toBeInTheDocument();
+  });
+
+  it('clears history only after confirmation', async () => {
+    vi.mocked(getAllHistory).mockResolvedValue([storedEntry]);
+    const user = userEvent.setup();
+    render(<App />);
+
+    await within(historyPanel()).findByText(storedEntry.output);
+    await user.click(screen.getByRole('button', { name: 'Clear All' }));
+    expect(clearHistory).not.toHaveBeenCalled();
+    await user.click(screen.getByRole('button', { name: 'Click to Confirm' }));
+
+    expect(clearHistory).toHaveBeenCalledTimes(1);
+    await waitFor(() => expect(within(historyPanel()).getByText('Your translations will appear here.')).toBeInTheDocument());
+  });
+
+  it('takes dictation and voice commands', async () => {
+    const recognizer = createFakeRecognizer();
+    vi.mocked(createWebSpeechRecognizer).mockReturnValueOnce(recognizer);
+    vi.mocked(translateThought).mockResolvedValue({ text: "Let's meet at noon." });
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByRole('button', { name: 'Start listening' }));
+    act(() => recognizer.emit(final('meet at noon')));
+    act(() => recognizer.emit(final('meet at noon'), final('switch tone to professional')));
+    act(() => recognizer.emit(final('meet at noon'), final('switch tone to professional'), final('translate now')));
+
+    await within(historyPanel()).findByText("Let's meet at noon.");
+    expect(translateThought).toHaveBeenCalledWith('meet at noon', expect.objectContaining({ name: 'Professional' }), 'English', expect.any(Function), expect.anything());
+    // Translating ends dictation
+    expect(recognizer.listening).toBe(false);
+  });
+
+  it('reads a history entry aloud', async () => {
+    const { spoken } = installFakeSpeechSynthesis();
+    vi.mocked(getAllHistory).mockResolvedValue([storedEntry]);
+    const user = userEvent.setup();
+    render(<App />);
+
+    await within(historyPanel()).findByText(storedEntry.output);
+    await user.click(within(historyPanel()).getByRole('button', { name: 'Read aloud' }));
+
+    expect(spoken.map(utterance => utterance.text)).toEqual([storedEntry.output]);
+    // Reading doesn't load the entry
+    expect(inputBox()).toHaveValue('');
+    await user.click(within(historyPanel()).getByRole('button', { name: 'Stop reading' }));
+    expect(within(historyPanel()).getByRole('button', { name: 'Read aloud' })).toBeInTheDocument();
+  });
+
+  it('shows the live cache size in the usage panel', async () => {
+    const now = Date.now();
+    localStorage.setItem('translationCache', JSON.stringify({ key: { result: { text: 'Hi.' }, createdAt: now, lastUsedAt: now } }));
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByRole('button', { name: 'Usage' }));
+    expect(screen.getByText('1 cached result')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Clear cache' }));
+
+    expect(screen.getByText('0 cached results')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Clear cache' })).toBeDisabled();
+  });
+
+  it('copies a share link for a history entry', async () => {
+    vi.mocked(getAllHistory).mockResolvedValue([storedEntry]);
+    const user = userEvent.setup();
+    const writeText = vi.spyOn(navigator.clipboard, 'writeText');
+    render(<App />);
+
+    await within(historyPanel()).findByText(storedEntry.output);
+    await user.click(within(historyPanel()).getByRole('button', { name: 'Copy share link' }));
+
+    await waitFor(() => expect(writeText).toHaveBeenCalled());
+    const link = new URL(writeText.mock.calls[0][0]);
+    expect(await parseShareFragment(link.hash)).toEqual(sharedFromEntry(storedEntry));
+  });
+
+  it('opens a share link read-only and saves it on request', async () => {
+    window.history.replaceState(null, '', '/' + await encodeShareFragment(sharedFromEntry(storedEntry)));
+    const user = userEvent.setup();
+    render(<App />);
+
+    const dialog = await screen.findByRole('dialog', { name: 'Shared translation' });
+    expect(within(dialog).getByText(storedEntry.output)).toBeInTheDocument();
+    expect(putHistoryEntry).not.toHaveBeenCalled();
+
+    await user.click(within(dialog).getByRole('button', { name: 'Save to my history' }));
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(window.location.hash).toBe('');
+    expect(putHistoryEntry).toHaveBeenCalledWith(expect.objectContaining({ input: storedEntry.input, output: storedEntry.output }));
+    expect(inputBox()).toHaveValue(storedEntry.input);
+  });
+
+  it('explains a damaged share link', async () => {
+    window.history.replaceState(null, '', '/#share=AAAA');
+    render(<App />);
+
+    const dialog = await screen.findByRole('dialog', { name: 'Shared translation' });
+    expect(within(dialog).getByRole('alert')).toHaveTextContent('This share link is damaged.');
+  });
+
+  it('queues translations made offline and sends them when back online', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const user = userEvent.setup();
+    render(<App />);
+
+    expect(screen.getByRole('status')).toHaveTextContent("You're offline.");
+    await user.type(inputBox(), 'on the train, running late');
+    await user.click(screen.getByRole('button', { name: /Queue Translation/ }));
+
+    const queued = within(historyPanel()).getByRole('listitem');
+    expect(queued).toHaveTextContent('on the train, running late');
+    expect(queued).toHaveTextContent('Pending');
+    expect(inputBox()).toHaveValue('');
+    expect(translateThought).not.toHaveBeenCalled();
+
+    vi.mocked(translateToLanguages).mockResolvedValue([{ status: 'fulfilled', value: { text: "I'm running late.", status: 'ok' } }]);
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+    act(() => { window.dispatchEvent(new Event('online')); });
+
+    expect(await within(historyPanel()).findByText("I'm running late.")).toBeInTheDocument();
+    expect(within(historyPanel()).getByText('Sent')).toBeInTheDocument();
+    expect(within(historyPanel()).queryByRole('listitem')).not.toBeInTheDocument();
+  });
+});
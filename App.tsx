@@ -1,99 +1,180 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { translateThought } from './services/geminiService';
-import { Tone, HistoryEntry } from './types';
-import { SparklesIcon, CopyIcon, CheckIcon, TrashIcon, MicrophoneIcon, SpeakerWaveIcon, SpeakerXMarkIcon } from './components/icons';
-
-// Web Speech API interfaces
-declare global {
-  interface Window {
-    SpeechRecognition: any;
-    webkitSpeechRecognition: any;
-    SpeechGrammarList: any;
-    webkitSpeechGrammarList: any;
-  }
-}
-
-const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-const recognition = SpeechRecognition ? new SpeechRecognition() : null;
-if (recognition) {
-  recognition.continuous = true;
-  recognition.interimResults = true;
-}
-
-const languages = [
-    { name: 'English', code: 'en-US' },
-    { name: 'Spanish', code: 'es-ES' },
-    { name: 'French', code: 'fr-FR' },
-    { name: 'German', code: 'de-DE' },
-    { name: 'Italian', code: 'it-IT' },
-    { name: 'Japanese', code: 'ja-JP' },
-    { name: 'Korean', code: 'ko-KR' },
-    { name: 'Russian', code: 'ru-RU' },
-    { name: 'Chinese (Simplified)', code: 'zh-CN' },
-    { name: 'Arabic', code: 'ar-SA' },
-    { name: 'Bengali', code: 'bn-IN' },
-    { name: 'Czech', code: 'cs-CZ' },
-    { name: 'Danish', code: 'da-DK' },
-    { name: 'Dutch', code: 'nl-NL' },
-    { name: 'Finnish', code: 'fi-FI' },
-    { name: 'Greek', code: 'el-GR' },
-    { name: 'Hebrew', code: 'he-IL' },
-    { name: 'Hindi', code: 'hi-IN' },
-    { name: 'Hungarian', code: 'hu-HU' },
-    { name: 'Indonesian', code: 'id-ID' },
-    { name: 'Norwegian', code: 'no-NO' },
-    { name: 'Polish', code: 'pl-PL' },
-    { name: 'Portuguese', code: 'pt-PT' },
-    { name: 'Romanian', code: 'ro-RO' },
-    { name: 'Slovak', code: 'sk-SK' },
-    { name: 'Swedish', code: 'sv-SE' },
-    { name: 'Thai', code: 'th-TH' },
-    { name: 'Turkish', code: 'tr-TR' },
-    { name: 'Ukrainian', code: 'uk-UA' },
-    { name: 'Vietnamese', code: 'vi-VN' },
-];
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { setUsageListener, setTranslationCache } from './services/geminiService';
+import { statusGuidance } from './services/structuredOutput';
+import { findLostSpans } from './services/protectedSpans';
+import { builtInToneProfiles, defaultToneProfile, loadToneProfiles, saveToneProfiles, mergeToneProfiles, resolveHistoryTone } from './services/toneProfiles';
+import { builtInPromptPreset, loadActivePromptId, loadPromptPresets, saveActivePromptId, savePromptPresets } from './services/promptPresets';
+import { VoiceCommand } from './services/dictation';
+import { createShareLink, sharedFromEntry, sharedToHistoryEntry, SharedTranslation } from './services/shareLink';
+import { HistoryEntry, ToneProfile, GlossaryEntry, UsageRecord, PromptPreset } from './types';
+import { CacheSettings, createTranslationCache, loadCacheSettings, localStorageCacheStorage, saveCacheSettings, TranslationCache } from './services/translationCache';
+import { dayKey, formatCost, loadUsageLog, loadUsageSettings, saveUsageLog, saveUsageSettings, spentToday, UsageSettings } from './services/usage';
+import { loadGlossary, saveGlossary, matchGlossary, checkGlossary } from './services/glossary';
+import { AUTO_LANGUAGE, languages, speechLanguageCode } from './utils/languages';
+import { useHistoryStore } from './hooks/useHistoryStore';
+import { useDictation } from './hooks/useDictation';
+import { useSpeechSynthesis } from './hooks/useSpeechSynthesis';
+import { useSharedTranslation } from './hooks/useSharedTranslation';
+import { useOfflineQueue } from './hooks/useOfflineQueue';
+import { AppError, useTranslationSession } from './hooks/useTranslationSession';
+import ToneManager from './components/ToneManager';
+import DiffView from './components/DiffView';
+import MarkdownPreview from './components/MarkdownPreview';
+import VariantPicker from './components/VariantPicker';
+import TargetTabs from './components/TargetTabs';
+import RefinementChat from './components/RefinementChat';
+import HistoryPanel from './components/HistoryPanel';
+import GlossaryManager from './components/GlossaryManager';
+import BatchPanel from './components/BatchPanel';
+import UsagePanel from './components/UsagePanel';
+import PromptManager from './components/PromptManager';
+import LanguagePicker from './components/LanguagePicker';
+import SpokenText from './components/SpokenText';
+import SpeechControls from './components/SpeechControls';
+import SharedView from './components/SharedView';
+import { SparklesIcon, CopyIcon, CheckIcon, MicrophoneIcon, SpeakerWaveIcon, SpeakerXMarkIcon, StopIcon, PauseIcon, PlayIcon, LinkIcon } from './components/icons';
+
+const MAX_VARIANTS = 5;
 
 
 const App: React.FC = () => {
-  const [input, setInput] = useState<string>('');
-  const [output, setOutput] = useState<string>('');
-  const [tone, setTone] = useState<Tone>(Tone.Friendly);
-  const [outputLanguage, setOutputLanguage] = useState<string>('English');
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  // The output card shows the raw text, a diff against the input, or raw text beside a Markdown preview
+  const [outputView, setOutputView] = useState<'text' | 'diff' | 'preview'>('text');
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [refineInstruction, setRefineInstruction] = useState<string>('');
+  const [tone, setTone] = useState<ToneProfile>(defaultToneProfile);
+  const [customTones, setCustomTones] = useState<ToneProfile[]>(loadToneProfiles);
+  const [isToneManagerOpen, setIsToneManagerOpen] = useState<boolean>(false);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(loadGlossary);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState<boolean>(false);
+  const [promptPresets, setPromptPresets] = useState<PromptPreset[]>(loadPromptPresets);
+  const [activePromptId, setActivePromptId] = useState<string>(loadActivePromptId);
+  const [isPromptManagerOpen, setIsPromptManagerOpen] = useState<boolean>(false);
+  // Structured output with a status and back-translation, so clarification requests aren't saved as translations
+  const [isSelfCheck, setIsSelfCheck] = useState<boolean>(true);
+  const [isBatchMode, setIsBatchMode] = useState<boolean>(false);
+  const [isLive, setIsLive] = useState<boolean>(false);
+  const [usageLog, setUsageLog] = useState<UsageRecord[]>(loadUsageLog);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [isUsageOpen, setIsUsageOpen] = useState<boolean>(false);
+  const [cacheSettings, setCacheSettings] = useState<CacheSettings>(loadCacheSettings);
+  const [cacheSize, setCacheSize] = useState<number>(0);
+  // Day on which the user chose to keep translating past the budget
+  const [budgetOverrideDay, setBudgetOverrideDay] = useState<string | null>(null);
+  // The first selected language is the primary one; selecting more translates into each of them
+  const [outputLanguages, setOutputLanguages] = useState<string[]>(['English']);
+  const [inputLanguage, setInputLanguage] = useState<string>(AUTO_LANGUAGE);
+  const [error, setError] = useState<AppError | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
-  const [confirmClear, setConfirmClear] = useState<boolean>(false);
-  const [isListening, setIsListening] = useState<boolean>(false);
-  const [isSpeaking, setIsSpeaking] = useState<boolean>(false);
-  const [isLanguageDropdownOpen, setIsLanguageDropdownOpen] = useState<boolean>(false);
-  const [languageSearch, setLanguageSearch] = useState('');
-  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [isVoiceOpen, setIsVoiceOpen] = useState<boolean>(false);
   
   const inputRef = useRef<HTMLTextAreaElement>(null);
-  const languageDropdownRef = useRef<HTMLDivElement>(null);
+  const cacheRef = useRef<TranslationCache | null>(null);
 
+  const outputLanguage = outputLanguages[0];
+  // A deleted preset falls back to the built-in rules
+  const activePrompt = promptPresets.find(preset => preset.id === activePromptId) ?? builtInPromptPreset;
 
-  // Load history from localStorage on mount
+  const history = useHistoryStore();
+  const speech = useSpeechSynthesis(message => setError({ message }));
+  const sharedLink = useSharedTranslation();
+  const offlineQueue = useOfflineQueue(history);
+
+  const copyCurrent = (text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopiedId('current');
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  // The budget is soft: the first request over it each day is held back with a warning,
+  // and pressing again goes ahead for the rest of the day
+  const checkBudget = (): boolean => {
+    const { dailyBudget, prices } = usageSettings;
+    const today = dayKey(Date.now());
+    const spent = spentToday(usageLog, prices);
+    if (!dailyBudget || spent < dailyBudget || budgetOverrideDay === today) return true;
+    setBudgetOverrideDay(today);
+    setError({
+      message: `Today's estimated spend (${formatCost(spent)}) has reached your daily budget of ${formatCost(dailyBudget)}.`,
+      nextStep: "Send again to continue anyway, or raise the budget in Usage.",
+    });
+    return false;
+  };
+
+  const session = useTranslationSession({
+    settings: {
+      tone,
+      outputLanguages,
+      inputLanguage,
+      variantCount,
+      glossary,
+      structured: isSelfCheck,
+      prompt: activePrompt,
+      live: isLive && !isBatchMode,
+    },
+    history,
+    beforeRequest: checkBudget,
+    onSubmit: () => {
+      dictation.stop();
+      // Stop any ongoing speech synthesis on new submission
+      speech.stop();
+    },
+    // Live requests would otherwise go past the budget on the next keystroke
+    onLiveBlocked: () => setIsLive(false),
+    onCopy: copyCurrent,
+    onError: setError,
+    queue: offlineQueue,
+  });
+  const dictation = useDictation({
+    target: inputRef,
+    value: session.input,
+    onChange: session.setInput,
+    onCommand: command => handleVoiceCommand(command),
+    onError: message => setError({ message }),
+  });
+  const { input, output, sourceInput, candidates, targets, translationBase, refinementTurns, clarification, backTranslation, isCached, isLoading, wasStopped } = session;
+
+
+  // Save custom tone profiles whenever they change
   useEffect(() => {
-    try {
-      const storedHistory = localStorage.getItem('translationHistory');
-      if (storedHistory) {
-        setHistory(JSON.parse(storedHistory));
-      }
-    } catch (e) {
-      console.error("Failed to load history from localStorage", e);
-    }
+    saveToneProfiles(customTones);
+  }, [customTones]);
+
+  // Save the glossary whenever it changes
+  useEffect(() => {
+    saveGlossary(glossary);
+  }, [glossary]);
+
+  useEffect(() => {
+    savePromptPresets(promptPresets);
+  }, [promptPresets]);
+
+  useEffect(() => {
+    saveActivePromptId(activePromptId);
+  }, [activePromptId]);
+
+  // Every model call is logged for the usage panel, including ones that never reach history
+  useEffect(() => {
+    setUsageListener(record => setUsageLog(prev => [...prev, record]));
+    return () => setUsageListener(null);
   }, []);
 
-  // Save history to localStorage whenever it changes
   useEffect(() => {
-    try {
-      localStorage.setItem('translationHistory', JSON.stringify(history));
-    } catch (e) {
-      console.error("Failed to save history to localStorage", e);
-    }
-  }, [history]);
+    saveUsageLog(usageLog);
+  }, [usageLog]);
+
+  useEffect(() => {
+    saveUsageSettings(usageSettings);
+  }, [usageSettings]);
+
+  // The cache is rebuilt with new limits when its settings change; entries persist in localStorage
+  useEffect(() => {
+    saveCacheSettings(cacheSettings);
+    cacheRef.current = createTranslationCache(cacheSettings, localStorageCacheStorage, setCacheSize);
+    setCacheSize(cacheRef.current.size());
+    setTranslationCache(cacheRef.current);
+    return () => setTranslationCache(null);
+  }, [cacheSettings]);
 
   // Global keydown listener to focus input
   useEffect(() => {
@@ -121,88 +202,17 @@ const App: React.FC = () => {
       window.removeEventListener('keydown', handleGlobalKeyDown);
     };
   }, []);
-  
-    // Close language dropdown on outside click
-    useEffect(() => {
-        const handleClickOutside = (event: MouseEvent) => {
-            if (languageDropdownRef.current && !languageDropdownRef.current.contains(event.target as Node)) {
-                setIsLanguageDropdownOpen(false);
-            }
-        };
-        document.addEventListener('mousedown', handleClickOutside);
-        return () => {
-            document.removeEventListener('mousedown', handleClickOutside);
-        };
-    }, []);
-
-    // Load speech synthesis voices
-    useEffect(() => {
-        const loadVoices = () => {
-            const availableVoices = window.speechSynthesis.getVoices();
-            if (availableVoices.length > 0) {
-                setVoices(availableVoices);
-            }
-        };
-        // Voices often load asynchronously.
-        window.speechSynthesis.onvoiceschanged = loadVoices;
-        loadVoices(); // Initial attempt.
-
-        return () => {
-            window.speechSynthesis.onvoiceschanged = null;
-        };
-    }, []);
-
-
-  const handleSubmit = useCallback(async () => {
-    if (!input.trim() || isLoading) return;
-
-    setIsLoading(true);
-    setError(null);
-    setOutput('');
-    if (isListening) {
-      recognition?.stop();
-      setIsListening(false);
-    }
-    // Stop any ongoing speech synthesis on new submission
-    if (isSpeaking) {
-        window.speechSynthesis.cancel();
-        setIsSpeaking(false);
-    }
 
-    try {
-      const fullResult = await translateThought(input, tone, outputLanguage, (chunk) => {
-        setOutput(prev => prev + chunk);
-      });
-      
-      if (fullResult) {
-        // Automatically copy the result
-        navigator.clipboard.writeText(fullResult);
-        setCopiedId('current');
-        setTimeout(() => setCopiedId(null), 2000);
-
-        const newEntry: HistoryEntry = {
-          id: new Date().toISOString(),
-          input,
-          output: fullResult,
-          tone,
-          outputLanguage,
-          timestamp: Date.now(),
-        };
-        setHistory(prev => [newEntry, ...prev]);
-      }
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "An unexpected error occurred.";
-      setError(message);
-      setOutput(message);
-    } finally {
-      setIsLoading(false);
+  const handleRefine = async () => {
+    if (await session.refine(refineInstruction)) {
+      setRefineInstruction('');
     }
-  }, [input, tone, outputLanguage, isLoading, isListening, isSpeaking]);
+  };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
-      handleSubmit();
+      session.submit();
     }
   };
 
@@ -212,117 +222,125 @@ const App: React.FC = () => {
     setTimeout(() => setCopiedId(null), 2000);
   };
 
-  const handleDeleteHistory = (id: string) => {
-    setHistory(prev => prev.filter(entry => entry.id !== id));
-  };
-  
-  const handleClearHistory = () => {
-    if (!confirmClear) {
-      setConfirmClear(true);
-      setTimeout(() => setConfirmClear(false), 3000); // Revert after 3 seconds
-    } else {
-      setHistory([]);
-      setConfirmClear(false);
+  // Copies a link that carries the translation itself, so no server is involved
+  const handleShare = async (shared: SharedTranslation, id: string) => {
+    try {
+      handleCopy(await createShareLink(shared), id);
+    } catch (e) {
+      setError({ message: e instanceof Error ? e.message : String(e) });
     }
   };
 
-  const toggleListening = () => {
-    if (!recognition) {
-        setError("Speech recognition is not supported in your browser.");
-        return;
-    }
-    if (isListening) {
-        recognition.stop();
-        setIsListening(false);
-    } else {
-        recognition.lang = 'en-US'; // Can be adapted
-        recognition.start();
-        setIsListening(true);
+  const handleSaveTone = (profile: ToneProfile) => {
+    setCustomTones(prev => prev.some(p => p.id === profile.id)
+      ? prev.map(p => p.id === profile.id ? profile : p)
+      : [...prev, profile]);
+    if (tone.id === profile.id) {
+      setTone(profile);
     }
   };
 
-  useEffect(() => {
-    if (!recognition) return;
-    recognition.onresult = (event: any) => {
-        let interimTranscript = '';
-        let finalTranscript = '';
-        for (let i = event.resultIndex; i < event.results.length; ++i) {
-            if (event.results[i].isFinal) {
-                finalTranscript += event.results[i][0].transcript;
-            } else {
-                interimTranscript += event.results[i][0].transcript;
-            }
-        }
-        setInput(input + finalTranscript + interimTranscript);
-    };
-    recognition.onerror = (event: any) => {
-        console.error("Speech recognition error", event.error);
-        setError(`Speech recognition error: ${event.error}`);
-        setIsListening(false);
-    };
-    recognition.onend = () => {
-        setIsListening(false);
-    }
-    return () => {
-        recognition.onresult = null;
-        recognition.onerror = null;
-        recognition.onend = null;
+  const handleDeleteTone = (id: string) => {
+    setCustomTones(prev => prev.filter(p => p.id !== id));
+    if (tone.id === id) {
+      setTone(defaultToneProfile);
     }
-  }, [input]);
+  };
 
-  const handleSpeak = () => {
-    if (isSpeaking) {
-        window.speechSynthesis.cancel();
-        setIsSpeaking(false);
-        return;
+  const handleImportTones = (imported: ToneProfile[]) => {
+    setCustomTones(prev => mergeToneProfiles(prev, imported));
+  };
+
+  const handleSavePrompt = (preset: PromptPreset) => {
+    setPromptPresets(prev => prev.some(p => p.id === preset.id)
+      ? prev.map(p => p.id === preset.id ? preset : p)
+      : [...prev, preset]);
+  };
+
+  const handleDeletePrompt = (id: string) => {
+    setPromptPresets(prev => prev.filter(p => p.id !== id));
+    if (activePromptId === id) {
+      setActivePromptId(builtInPromptPreset.id);
     }
+  };
 
-    if (output && 'speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(output);
-      const selectedLanguage = languages.find(lang => lang.name === outputLanguage);
-      const langCode = selectedLanguage ? selectedLanguage.code : 'en-US';
-      
-      utterance.lang = langCode;
+  const handleToggleStar = (entry: HistoryEntry) => {
+    history.update(entry.id, { starred: !entry.starred });
+  };
 
-      // Find the best available voice for the selected language
-      const languageVoices = voices.filter(voice => voice.lang === langCode);
-      // Heuristic: Prefer non-local (often higher quality cloud-based) voices
-      const bestVoice = languageVoices.find(voice => !voice.localService) || languageVoices[0];
+  const toggleListening = () => {
+    if (dictation.isListening) {
+        dictation.stop();
+    } else {
+        dictation.start(speechLanguageCode(inputLanguage, translationBase?.sourceLanguage));
+    }
+  };
 
-      if (bestVoice) {
-          utterance.voice = bestVoice;
-      }
-      
-      utterance.onend = () => setIsSpeaking(false);
-      utterance.onerror = (e) => {
-        console.error("Speech synthesis error", e);
-        setError("Sorry, text-to-speech for this language is not available or failed to load.");
-        setIsSpeaking(false);
-      };
-      
-      // Stop any previous speech before starting a new one
-      window.speechSynthesis.cancel();
-      window.speechSynthesis.speak(utterance);
-      setIsSpeaking(true);
+  const handleVoiceCommand = (command: VoiceCommand) => {
+    if (command.type === 'translate') {
+      session.submit();
+      return;
+    }
+    const match = toneOptions.find(t => t.name.toLowerCase() === command.name.toLowerCase());
+    if (match) {
+      setTone(match);
     } else {
-        setError("Text-to-speech is not supported in your browser.");
+      setError({
+        message: `There's no tone called "${command.name}".`,
+        nextStep: `Say "switch tone to" followed by one of: ${toneOptions.map(t => t.name).join(', ')}.`,
+      });
     }
   };
 
+  // The language the output on screen was translated into
+  const spokenLanguage = translationBase?.language ?? outputLanguage;
+  const isSpeakingOutput = speech.speakingId === 'current';
+  const handleSpeak = () => speech.speak(output, spokenLanguage, 'current');
+
 
   const loadFromHistory = (entry: HistoryEntry) => {
-    setInput(entry.input);
-    setOutput(entry.output);
-    setTone(entry.tone);
-    setOutputLanguage(entry.outputLanguage);
-    if (isSpeaking) {
-      window.speechSynthesis.cancel();
-      setIsSpeaking(false);
+    session.load(entry);
+    setRefineInstruction('');
+    // Prefer the current version of the tone; fall back to the snapshot if it was deleted
+    const entryTone = resolveHistoryTone(entry);
+    setTone(allTones.find(p => p.id === entryTone.id) ?? entryTone);
+    if (entry.promptPreset && (entry.promptPreset.builtIn || promptPresets.some(p => p.id === entry.promptPreset!.id))) {
+      setActivePromptId(entry.promptPreset.id);
     }
+    setOutputLanguages([entry.outputLanguage]);
+    speech.stop();
   };
-  
-  const filteredLanguages = languages.filter(lang => lang.name.toLowerCase().includes(languageSearch.toLowerCase()));
 
+  const openShared = (shared: SharedTranslation, save: boolean) => {
+    const entry = sharedToHistoryEntry(shared);
+    if (save) history.add(entry);
+    setIsBatchMode(false);
+    loadFromHistory(entry);
+    sharedLink.dismiss();
+  };
+  
+  // Glossary terms from the translated input that the finished output doesn't respect
+  const glossaryViolations = useMemo(() => {
+    if (!translationBase || !output || isLoading) return [];
+    return checkGlossary(matchGlossary(glossary, translationBase.input, translationBase.language), output);
+  }, [translationBase, output, isLoading, glossary]);
+
+  // Code, links, mentions and placeholders from the input that didn't survive into the output
+  const lostSpans = useMemo(() => {
+    if (!output || isLoading) return [];
+    return findLostSpans(sourceInput, output);
+  }, [sourceInput, output, isLoading]);
+
+  const allTones = [...builtInToneProfiles, ...customTones];
+  // A tone restored from history that no longer exists is still shown so it can be reused
+  const toneOptions = allTones.some(p => p.id === tone.id) ? allTones : [...allTones, tone];
+
+  const errorAlert = error && (
+    <div className="mt-4 text-red-400 bg-red-900/30 p-3 rounded-lg border border-red-800" role="alert">
+      <p>{error.message}</p>
+      {error.nextStep && <p className="text-sm text-red-300/80 mt-1">{error.nextStep}</p>}
+    </div>
+  );
 
   return (
     <div className="bg-zinc-900 text-zinc-200 min-h-screen font-sans p-4 sm:p-6 lg:p-8">
@@ -340,142 +358,382 @@ const App: React.FC = () => {
           </header>
 
           <main className="space-y-6">
+            <div className="flex gap-1 bg-zinc-800/50 p-1 rounded-full border border-zinc-700 w-fit" role="radiogroup" aria-label="Mode">
+                {[false, true].map(batch => (
+                    <button
+                        key={String(batch)}
+                        type="button"
+                        role="radio"
+                        aria-checked={isBatchMode === batch}
+                        onClick={() => setIsBatchMode(batch)}
+                        disabled={isLoading}
+                        className={`px-4 py-1.5 rounded-full text-sm transition-colors duration-200 ${
+                            isBatchMode === batch
+                            ? 'bg-[#ff91af] text-zinc-900 font-semibold shadow-md'
+                            : 'text-zinc-400 hover:text-zinc-200'
+                        }`}
+                    >
+                        {batch ? 'Batch' : 'Single'}
+                    </button>
+                ))}
+            </div>
+
             {/* Input Card */}
+            {!isBatchMode && (
             <div className="bg-zinc-800/50 p-6 rounded-xl shadow-lg border border-zinc-700">
               <div className="flex justify-between items-center mb-3">
                 <label htmlFor="input" className="text-lg font-semibold text-zinc-300">
                   Your Raw Thoughts
                 </label>
+                <div className="flex items-center gap-x-2">
+                <select
+                    value={inputLanguage}
+                    onChange={(e) => setInputLanguage(e.target.value)}
+                    className="px-2 py-1.5 bg-zinc-700 border border-zinc-600 rounded-lg text-sm text-zinc-300 focus:ring-2 focus:ring-[#ff91af] focus:border-[#ff91af]"
+                    aria-label="Input language"
+                    title="Language you write or speak in"
+                >
+                    <option value={AUTO_LANGUAGE}>Auto-detect</option>
+                    {languages.map(lang => <option key={lang.code} value={lang.name}>{lang.name}</option>)}
+                </select>
                 <button
                     onClick={toggleListening}
-                    className={`p-2 rounded-full transition-colors duration-200 ${isListening ? 'bg-red-500/80 text-white animate-pulse' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
-                    aria-label={isListening ? 'Stop listening' : 'Start listening'}
+                    className={`p-2 rounded-full transition-colors duration-200 ${dictation.isListening ? 'bg-red-500/80 text-white animate-pulse' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
+                    aria-label={dictation.isListening ? 'Stop listening' : 'Start listening'}
+                    title='Dictate. Say "new line", "clear", "translate now" or "switch tone to …" after a pause.'
                 >
                     <MicrophoneIcon className="w-5 h-5" />
                 </button>
+                </div>
               </div>
               <textarea
                 id="input"
                 ref={inputRef}
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
+                onChange={(e) => session.setInput(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder="Jot down anything... a messy idea, a quick note, or a sentence in another language. Press Enter to translate."
+                placeholder={`Jot down anything... a messy idea, a quick note, or a sentence in another language. ${isLive ? 'Translation starts when you pause typing.' : 'Press Enter to translate.'}`}
                 className="w-full h-36 p-3 bg-zinc-900/70 border border-zinc-600 rounded-lg focus:ring-2 focus:ring-[#ff91af] focus:border-[#ff91af] transition-colors duration-200 resize-none"
                 rows={6}
               />
+              {dictation.interim && (
+                <p className="mt-2 text-sm italic text-zinc-500" aria-live="polite">
+                  {dictation.interim}…
+                </p>
+              )}
+              {!offlineQueue.isOnline && (
+                <p className="mt-2 text-sm text-yellow-300" role="status">
+                  You're offline. Translations are queued and sent when the connection returns.
+                </p>
+              )}
             </div>
+            )}
 
             {/* Controls */}
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                 <div>
                     <label className="block text-sm font-medium text-zinc-400 mb-2">Tone</label>
                     <div className="flex flex-wrap gap-2">
-                    {Object.values(Tone).map((t) => (
+                    {toneOptions.map((t) => (
                         <button
-                        key={t}
+                        key={t.id}
                         type="button"
                         onClick={() => setTone(t)}
+                        title={t.guidance || undefined}
                         className={`px-4 py-2 rounded-full text-sm transition-colors duration-200 ${
-                            tone === t
+                            tone.id === t.id
                             ? 'bg-[#ff91af] text-zinc-900 font-semibold shadow-md'
                             : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'
                         }`}
                         >
-                        {t}
+                        {t.name}
                         </button>
                     ))}
+                    <button
+                        type="button"
+                        onClick={() => setIsToneManagerOpen(prev => !prev)}
+                        className="px-4 py-2 rounded-full text-sm border border-dashed border-zinc-600 text-zinc-400 hover:border-[#ff91af]/50 transition-colors duration-200"
+                    >
+                        {isToneManagerOpen ? 'Close' : 'Manage Tones'}
+                    </button>
                     </div>
                 </div>
                 <div>
                     <label htmlFor="language" className="block text-sm font-medium text-zinc-400 mb-2">
                         Output Language
                     </label>
-                    <div className="relative" ref={languageDropdownRef}>
+                    <LanguagePicker languages={languages} selected={outputLanguages} onChange={setOutputLanguages} />
+                </div>
+            </div>
+
+            <div className="flex items-center gap-3 flex-wrap">
+                {!isBatchMode && (
+                <>
+                <span className="text-sm font-medium text-zinc-400">Variants</span>
+                <div className="flex gap-1" role="radiogroup" aria-label="Number of variants">
+                    {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
                         <button
+                            key={n}
                             type="button"
-                            onClick={() => setIsLanguageDropdownOpen(prev => !prev)}
-                            className="w-full p-2.5 bg-zinc-700 border border-zinc-600 rounded-lg focus:ring-2 focus:ring-[#ff91af] focus:border-[#ff91af] transition-colors duration-200 flex justify-between items-center text-left"
-                            aria-haspopup="listbox"
-                            aria-expanded={isLanguageDropdownOpen}
+                            role="radio"
+                            aria-checked={variantCount === n}
+                            onClick={() => setVariantCount(n)}
+                            disabled={outputLanguages.length > 1}
+                            className={`w-8 h-8 rounded-full text-sm transition-colors duration-200 disabled:opacity-50 ${
+                                variantCount === n
+                                ? 'bg-[#ff91af] text-zinc-900 font-semibold shadow-md'
+                                : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'
+                            }`}
                         >
-                            <span>{outputLanguage}</span>
-                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className={`transition-transform duration-200 ${isLanguageDropdownOpen ? 'rotate-180' : ''}`} viewBox="0 0 16 16">
-                                <path fillRule="evenodd" d="M1.646 4.646a.5.5 0 0 1 .708 0L8 10.293l5.646-5.647a.5.5 0 0 1 .708.708l-6 6a.5.5 0 0 1-.708 0l-6-6a.5.5 0 0 1 0-.708z"/>
-                            </svg>
+                            {n}
                         </button>
-                        {isLanguageDropdownOpen && (
-                            <div className="absolute z-10 top-full mt-2 w-full bg-zinc-800 border border-zinc-600 rounded-lg shadow-lg">
-                                <div className="p-2">
-                                    <input
-                                        type="text"
-                                        placeholder="Search language..."
-                                        value={languageSearch}
-                                        onChange={(e) => setLanguageSearch(e.target.value)}
-                                        className="w-full px-3 py-2 bg-zinc-900 border border-zinc-600 rounded-md focus:ring-1 focus:ring-[#ff91af] focus:border-[#ff91af]"
-                                        autoFocus
-                                    />
-                                </div>
-                                <ul className="max-h-60 overflow-y-auto" role="listbox">
-                                    {filteredLanguages.length > 0 ? filteredLanguages.map(lang => (
-                                        <li key={lang.code} role="option" aria-selected={outputLanguage === lang.name}>
-                                            <button
-                                                type="button"
-                                                onClick={() => {
-                                                    setOutputLanguage(lang.name);
-                                                    setIsLanguageDropdownOpen(false);
-                                                    setLanguageSearch('');
-                                                }}
-                                                className={`w-full text-left px-4 py-2 transition-colors ${outputLanguage === lang.name ? 'bg-[#ff91af]/20 text-white' : 'hover:bg-zinc-700/50'}`}
-                                            >
-                                                {lang.name}
-                                            </button>
-                                        </li>
-                                    )) : (
-                                        <li className="px-4 py-2 text-zinc-500">No results found.</li>
-                                    )}
-                                </ul>
-                            </div>
-                        )}
-                    </div>
+                    ))}
                 </div>
+                {outputLanguages.length > 1 && (
+                    <span className="text-xs text-zinc-500">One version per language</span>
+                )}
+                </>
+                )}
+                {!isBatchMode && (
+                <button
+                    type="button"
+                    onClick={() => setIsLive(prev => !prev)}
+                    className={`ml-auto px-4 py-2 rounded-full text-sm transition-colors duration-200 ${
+                        isLive
+                        ? 'bg-[#ff91af]/20 text-[#ff91af] border border-[#ff91af]/50'
+                        : 'border border-dashed border-zinc-600 text-zinc-400 hover:border-[#ff91af]/50'
+                    }`}
+                    aria-pressed={isLive}
+                    title="Translate automatically when you pause typing (first language, one version)"
+                >
+                    Live
+                </button>
+                )}
+                <button
+                    type="button"
+                    onClick={() => setIsSelfCheck(prev => !prev)}
+                    className={`${isBatchMode ? 'ml-auto ' : ''}px-4 py-2 rounded-full text-sm transition-colors duration-200 ${
+                        isSelfCheck
+                        ? 'bg-[#ff91af]/20 text-[#ff91af] border border-[#ff91af]/50'
+                        : 'border border-dashed border-zinc-600 text-zinc-400 hover:border-[#ff91af]/50'
+                    }`}
+                    aria-pressed={isSelfCheck}
+                    title="Ask for clarifying questions instead of a guess, and show a back-translation"
+                >
+                    Self-check
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setIsGlossaryOpen(prev => !prev)}
+                    className="px-4 py-2 rounded-full text-sm border border-dashed border-zinc-600 text-zinc-400 hover:border-[#ff91af]/50 transition-colors duration-200"
+                    aria-expanded={isGlossaryOpen}
+                >
+                    Glossary{glossary.length > 0 ? ` (${glossary.length})` : ''}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setIsPromptManagerOpen(prev => !prev)}
+                    className="px-4 py-2 rounded-full text-sm border border-dashed border-zinc-600 text-zinc-400 hover:border-[#ff91af]/50 transition-colors duration-200"
+                    aria-expanded={isPromptManagerOpen}
+                    title="View and edit the system prompt"
+                >
+                    Prompt{activePrompt.builtIn ? '' : `: ${activePrompt.name}`}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setIsUsageOpen(prev => !prev)}
+                    className="px-4 py-2 rounded-full text-sm border border-dashed border-zinc-600 text-zinc-400 hover:border-[#ff91af]/50 transition-colors duration-200"
+                    aria-expanded={isUsageOpen}
+                >
+                    Usage
+                </button>
             </div>
 
-            <button
-              type="button"
-              onClick={handleSubmit}
-              disabled={isLoading || !input.trim()}
-              className="w-full flex items-center justify-center gap-x-2 px-6 py-3 bg-gradient-to-r from-[#ff91af] to-rose-500 hover:from-[#fd80a2] hover:to-rose-600 text-white font-bold rounded-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 disabled:scale-100 shadow-lg"
-            >
-              {isLoading ? (
-                <>
-                  <SparklesIcon className="w-5 h-5 animate-spin" />
-                  Translating...
-                </>
-              ) : (
-                <>
-                  <SparklesIcon className="w-5 h-5" />
-                  Translate Thought
-                </>
-              )}
-            </button>
+            {isGlossaryOpen && (
+              <GlossaryManager
+                entries={glossary}
+                languages={languages.map(lang => lang.name)}
+                onAdd={(entry) => setGlossary(prev => [...prev, entry])}
+                onDelete={(id) => setGlossary(prev => prev.filter(entry => entry.id !== id))}
+                onClose={() => setIsGlossaryOpen(false)}
+              />
+            )}
 
-            {error && <div className="mt-4 text-red-400 bg-red-900/30 p-3 rounded-lg border border-red-800">{error}</div>}
+            {isPromptManagerOpen && (
+              <PromptManager
+                presets={promptPresets}
+                active={activePrompt}
+                structured={isSelfCheck}
+                onSelect={setActivePromptId}
+                onSave={handleSavePrompt}
+                onDelete={handleDeletePrompt}
+                onClose={() => setIsPromptManagerOpen(false)}
+              />
+            )}
+
+            {isUsageOpen && (
+              <UsagePanel
+                records={usageLog}
+                settings={usageSettings}
+                onSettingsChange={setUsageSettings}
+                onClear={() => setUsageLog([])}
+                cacheSettings={cacheSettings}
+                cacheSize={cacheSize}
+                onCacheSettingsChange={setCacheSettings}
+                onClearCache={() => { cacheRef.current?.clear(); session.clearCachedFlag(); }}
+                onClose={() => setIsUsageOpen(false)}
+              />
+            )}
+
+            {isToneManagerOpen && (
+              <ToneManager
+                profiles={customTones}
+                onSave={handleSaveTone}
+                onDelete={handleDeleteTone}
+                onImport={handleImportTones}
+                onClose={() => setIsToneManagerOpen(false)}
+              />
+            )}
+
+            {isBatchMode ? (
+              <>
+              {errorAlert}
+              <BatchPanel
+                tone={tone}
+                language={outputLanguage}
+                options={{ glossary, sourceLanguage: inputLanguage === AUTO_LANGUAGE ? undefined : inputLanguage, structured: isSelfCheck, systemRules: activePrompt.rules }}
+                beforeRun={checkBudget}
+              />
+              </>
+            ) : (
+            <>
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={session.stop}
+                className="w-full flex items-center justify-center gap-x-2 px-6 py-3 bg-zinc-700 hover:bg-zinc-600 text-white font-bold rounded-lg transition-all duration-300 shadow-lg"
+              >
+                <SparklesIcon className="w-5 h-5 animate-spin" />
+                Translating... <StopIcon className="w-5 h-5 ml-2" /> Stop
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => session.submit()}
+                disabled={!input.trim()}
+                className="w-full flex items-center justify-center gap-x-2 px-6 py-3 bg-gradient-to-r from-[#ff91af] to-rose-500 hover:from-[#fd80a2] hover:to-rose-600 text-white font-bold rounded-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 disabled:scale-100 shadow-lg"
+              >
+                <SparklesIcon className="w-5 h-5" />
+                {offlineQueue.isOnline ? 'Translate Thought' : 'Queue Translation'}
+              </button>
+            )}
+
+            {errorAlert}
+
+            {clarification?.status && clarification.status !== 'ok' && (
+              <div className={`p-4 rounded-lg border ${clarification.status === 'refused' ? 'text-red-300 bg-red-900/20 border-red-800/60' : 'text-yellow-300 bg-yellow-900/20 border-yellow-800/60'}`} role="status">
+                <p className="font-semibold">{statusGuidance[clarification.status]}</p>
+                {clarification.questions && clarification.questions.length > 0 && (
+                  <ul className="mt-2 list-disc list-inside text-sm">
+                    {clarification.questions.map((question, i) => <li key={i}>{question}</li>)}
+                  </ul>
+                )}
+                <p className="mt-2 text-sm opacity-80">Nothing was copied or saved. Edit your thought and translate again.</p>
+              </div>
+            )}
+
+            {candidates.length > 0 && (
+              <VariantPicker candidates={candidates} isLoading={isLoading} onPick={session.pickVariant} />
+            )}
+
+            {targets.length > 0 && (
+              <TargetTabs
+                targets={targets}
+                activeIndex={session.activeTarget}
+                isLoading={isLoading}
+                speakingId={speech.speakingId}
+                highlight={speech.highlight}
+                copiedId={copiedId}
+                onSelect={session.setActiveTarget}
+                onCopy={handleCopy}
+                onSpeak={speech.speak}
+              />
+            )}
 
             {/* Output Card */}
-            {(isLoading || output) && (
+            {candidates.length === 0 && targets.length === 0 && (isLoading || output) && (
               <div className="bg-zinc-800/50 p-6 rounded-xl shadow-lg border border-zinc-700">
                 <div className="flex justify-between items-center mb-3">
-                    <h2 className="text-lg font-semibold text-zinc-300">Polished Version</h2>
+                    <h2 className="text-lg font-semibold text-zinc-300">
+                        Polished Version
+                        {wasStopped && <span className="ml-2 text-xs font-normal text-zinc-500">(stopped early)</span>}
+                        {translationBase?.sourceLanguage && !isLoading && (
+                            <span className="ml-2 text-xs font-normal text-zinc-500">
+                                from {translationBase.sourceLanguage}
+                            </span>
+                        )}
+                        {isCached && !isLoading && (
+                            <span className="ml-2 px-2 py-0.5 text-xs font-normal text-zinc-400 bg-zinc-700 rounded-full" title="Served from the response cache">
+                                cached
+                            </span>
+                        )}
+                    </h2>
                     {output && !isLoading && (
                          <div className="flex items-center gap-x-2">
+                             {translationBase && (
+                                 <button
+                                     onClick={() => session.submit(true)}
+                                     disabled={!input.trim()}
+                                     className="px-3 py-1.5 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full transition-colors disabled:opacity-50"
+                                     title="Translate again, bypassing the cache"
+                                 >
+                                     Regenerate
+                                 </button>
+                             )}
+                             {(['diff', 'preview'] as const).map(view => (
+                                 <button
+                                     key={view}
+                                     onClick={() => setOutputView(prev => prev === view ? 'text' : view)}
+                                     className={`px-3 py-1.5 text-sm rounded-full transition-colors ${outputView === view ? 'bg-[#ff91af] text-zinc-900 font-semibold' : 'bg-zinc-700 hover:bg-zinc-600'}`}
+                                     aria-pressed={outputView === view}
+                                 >
+                                     {view === 'diff' ? 'Diff' : 'Preview'}
+                                 </button>
+                             ))}
+                             {isSpeakingOutput && (
+                                 <button
+                                     onClick={speech.isPaused ? speech.resume : speech.pause}
+                                     className="p-2 bg-zinc-700 hover:bg-zinc-600 rounded-full transition-colors"
+                                     aria-label={speech.isPaused ? "Resume reading" : "Pause reading"}
+                                 >
+                                     {speech.isPaused ? <PlayIcon className="w-5 h-5"/> : <PauseIcon className="w-5 h-5"/>}
+                                 </button>
+                             )}
                              <button
                                  onClick={handleSpeak}
                                  className="p-2 bg-zinc-700 hover:bg-zinc-600 rounded-full transition-colors"
-                                 aria-label={isSpeaking ? "Stop speaking" : "Read aloud"}
+                                 aria-label={isSpeakingOutput ? "Stop speaking" : "Read aloud"}
                              >
-                                 {isSpeaking ? <SpeakerXMarkIcon className="w-5 h-5 text-red-400"/> : <SpeakerWaveIcon className="w-5 h-5"/>}
+                                 {isSpeakingOutput ? <SpeakerXMarkIcon className="w-5 h-5 text-red-400"/> : <SpeakerWaveIcon className="w-5 h-5"/>}
                              </button>
+                             <button
+                                 onClick={() => setIsVoiceOpen(prev => !prev)}
+                                 className={`px-3 py-1.5 text-sm rounded-full transition-colors ${isVoiceOpen ? 'bg-[#ff91af] text-zinc-900 font-semibold' : 'bg-zinc-700 hover:bg-zinc-600'}`}
+                                 aria-expanded={isVoiceOpen}
+                                 title="Voice, speed and pitch for reading aloud"
+                             >
+                                 Voice
+                             </button>
+                             {translationBase && (
+                                 <button
+                                     onClick={() => handleShare({ ...translationBase, output }, 'share-current')}
+                                     className="flex items-center gap-x-1.5 px-3 py-1.5 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full transition-colors"
+                                     aria-label="Copy share link"
+                                     title="Copy a link that opens this translation"
+                                 >
+                                     {copiedId === 'share-current' ? <><CheckIcon className="w-4 h-4 text-green-400" /> Link copied!</> : <><LinkIcon className="w-4 h-4" /> Share</>}
+                                 </button>
+                             )}
                              <button
                                  onClick={() => handleCopy(output, 'current')}
                                  className="flex items-center gap-x-1.5 px-3 py-1.5 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full transition-colors"
@@ -492,72 +750,88 @@ const App: React.FC = () => {
                             <SparklesIcon className="w-8 h-8 text-[#ff91af] animate-pulse" />
                         </div>
                     )}
-                    <p className="whitespace-pre-wrap text-zinc-300">{output}</p>
+                    {outputView === 'diff' && output && !isLoading
+                        ? <DiffView before={sourceInput} after={output} />
+                        : outputView === 'preview' && output && !isLoading
+                        ? (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <p className="whitespace-pre-wrap text-zinc-300 text-sm sm:border-r sm:border-zinc-700 sm:pr-4">{output}</p>
+                                <MarkdownPreview markdown={output} />
+                            </div>
+                        )
+                        : <SpokenText text={output} highlight={isSpeakingOutput ? speech.highlight : null} />}
                 </div>
+                {isVoiceOpen && output && !isLoading && (
+                    <SpeechControls speech={speech} language={spokenLanguage} onClose={() => setIsVoiceOpen(false)} />
+                )}
+                {lostSpans.length > 0 && (
+                    <div className="mt-3 text-sm text-yellow-300 bg-yellow-900/20 p-3 rounded-lg border border-yellow-800/60">
+                        <p className="font-semibold">Formatting not preserved</p>
+                        <p className="mt-1">These parts of your input are missing or changed: {lostSpans.map(span => <code key={span} className="mx-1 px-1 bg-zinc-800 rounded">{span}</code>)}</p>
+                    </div>
+                )}
+                {backTranslation && refinementTurns.length === 0 && !isLoading && (
+                    <p className="mt-3 text-sm text-zinc-500">
+                        <span className="font-semibold">Back-translation{translationBase?.sourceLanguage ? ` (${translationBase.sourceLanguage})` : ''}:</span> {backTranslation}
+                    </p>
+                )}
+                {glossaryViolations.length > 0 && (
+                    <div className="mt-3 text-sm text-yellow-300 bg-yellow-900/20 p-3 rounded-lg border border-yellow-800/60">
+                        <p className="font-semibold">Glossary not followed</p>
+                        <ul className="mt-1 list-disc list-inside">
+                            {glossaryViolations.map(({ entry, expected }) => (
+                                <li key={entry.id}>
+                                    {entry.kind === 'protected'
+                                        ? `"${expected}" should appear verbatim`
+                                        : `"${entry.term}" should be rendered as "${expected}"`}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                {translationBase && output && !isLoading && (
+                    <RefinementChat
+                        originalOutput={translationBase.output}
+                        turns={refinementTurns}
+                        instruction={refineInstruction}
+                        onInstructionChange={setRefineInstruction}
+                        onSubmit={handleRefine}
+                    />
+                )}
               </div>
             )}
+            </>
+            )}
           </main>
         </div>
 
         {/* History Column */}
         <aside className="lg:col-span-1">
-          <div className="sticky top-8">
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-2xl font-bold text-zinc-300">History</h2>
-              {history.length > 0 && (
-                <button 
-                  onClick={handleClearHistory}
-                  className={`px-3 py-1 text-sm rounded-full transition-colors duration-300 ${
-                    confirmClear ? 'bg-yellow-500 text-black' : 'bg-zinc-700 text-zinc-400 hover:bg-red-500/80 hover:text-white'
-                  }`}
-                >
-                  {confirmClear ? "Click to Confirm" : "Clear All"}
-                </button>
-              )}
-            </div>
-            {history.length === 0 ? (
-                <div className="text-center py-10 bg-zinc-800/50 rounded-lg border border-dashed border-zinc-700">
-                    <p className="text-zinc-500">Your translations will appear here.</p>
-                </div>
-            ) : (
-                <div className="space-y-4 max-h-[80vh] overflow-y-auto pr-2">
-                {history.map((entry) => (
-                    <div key={entry.id} className="bg-zinc-800/50 p-4 rounded-xl shadow-md border border-zinc-700 cursor-pointer hover:border-[#ff91af]/50 transition-colors" onClick={() => loadFromHistory(entry)}>
-                    <div className="mb-3">
-                        <p className="text-sm text-zinc-400 truncate">"{entry.input}"</p>
-                    </div>
-                    <div className="relative group">
-                        <p className="text-zinc-300 whitespace-pre-wrap text-sm line-clamp-3">{entry.output}</p>
-                        <div className="absolute -top-1 right-0 flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                            <button
-                                onClick={(e) => { e.stopPropagation(); handleCopy(entry.output, entry.id); }}
-                                className="p-1.5 bg-zinc-600 hover:bg-zinc-500 rounded-full"
-                                aria-label="Copy"
-                            >
-                                {copiedId === entry.id ? <CheckIcon className="w-4 h-4 text-green-400" /> : <CopyIcon className="w-4 h-4" />}
-                            </button>
-                            <button
-                                onClick={(e) => { e.stopPropagation(); handleDeleteHistory(entry.id); }}
-                                className="p-1.5 bg-zinc-600 hover:bg-red-500 rounded-full"
-                                aria-label="Delete"
-                            >
-                                <TrashIcon className="w-4 h-4" />
-                            </button>
-                        </div>
-                    </div>
-                    <div className="text-xs text-zinc-500 mt-3 flex justify-between items-center">
-                        <span>{entry.tone} | {entry.outputLanguage}</span>
-                        <time dateTime={new Date(entry.timestamp).toISOString()}>
-                            {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                        </time>
-                    </div>
-                    </div>
-                ))}
-                </div>
-            )}
-          </div>
+          <HistoryPanel
+            entries={history.entries}
+            copiedId={copiedId}
+            onLoad={loadFromHistory}
+            onCopy={handleCopy}
+            speakingId={speech.speakingId}
+            onSpeak={(entry) => speech.speak(entry.output, entry.outputLanguage, `history-${entry.id}`)}
+            onShare={(entry) => handleShare(sharedFromEntry(entry), `share-${entry.id}`)}
+            queue={offlineQueue}
+            onDelete={history.remove}
+            onToggleStar={handleToggleStar}
+            onClear={history.clear}
+            onImport={history.importEntries}
+          />
         </aside>
       </div>
+      {(sharedLink.shared || sharedLink.error) && (
+        <SharedView
+          shared={sharedLink.shared}
+          error={sharedLink.error}
+          onOpenInEditor={(shared) => openShared(shared, false)}
+          onSaveToHistory={(shared) => openShared(shared, true)}
+          onClose={sharedLink.dismiss}
+        />
+      )}
     </div>
   );
 };
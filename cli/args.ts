@@ -0,0 +1,89 @@
+import { parseArgs } from 'node:util';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+export interface CliOptions {
+  text: string[];
+  tone: string;
+  language: string;
+  sourceLanguage?: string;
+  variants: number;
+  json: boolean;
+  // Structured output with a status, so unclear input fails instead of printing a guess
+  selfCheck: boolean;
+  // Where translations are recorded; undefined when history is turned off
+  historyFile?: string;
+  help: boolean;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const MAX_VARIANTS = 5;
+
+export const defaultHistoryFile = join(homedir(), '.thought-translator', 'history.json');
+
+export const usage = `Usage: thought-translator [options] [text...]
+
+Rewrites a messy thought into clear text. Reads stdin when no text is given.
+
+Options:
+  -t, --tone <name>       Friendly, Humorous or Professional (default: Friendly)
+  -l, --lang <language>   Output language (default: English)
+  -f, --from <language>   Language of the input (default: detected)
+  -n, --variants <count>  Generate up to ${MAX_VARIANTS} alternative versions
+      --json              Print the history entry as JSON instead of streaming text
+      --no-check          Plain output without the clarification check and back-translation
+      --history <file>    History file (default: ${defaultHistoryFile})
+      --no-history        Don't record this translation
+  -h, --help              Show this help
+
+The history file uses the web app's export format, so it can be imported there.`;
+
+export function parseCliArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        tone: { type: 'string', short: 't', default: 'Friendly' },
+        lang: { type: 'string', short: 'l', default: 'English' },
+        from: { type: 'string', short: 'f' },
+        variants: { type: 'string', short: 'n', default: '1' },
+        json: { type: 'boolean', default: false },
+        'no-check': { type: 'boolean', default: false },
+        history: { type: 'string' },
+        'no-history': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+
+  const variants = Number(values.variants);
+  if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS) {
+    throw new UsageError(`--variants must be a whole number from 1 to ${MAX_VARIANTS}`);
+  }
+  if (!values.lang.trim()) {
+    throw new UsageError("--lang needs a language name");
+  }
+
+  return {
+    text: positionals,
+    tone: values.tone,
+    language: values.lang.trim(),
+    sourceLanguage: values.from?.trim() || undefined,
+    variants,
+    json: values.json,
+    selfCheck: !values['no-check'],
+    historyFile: values['no-history'] ? undefined : values.history ?? env.THOUGHT_TRANSLATOR_HISTORY ?? defaultHistoryFile,
+    help: values.help,
+  };
+}
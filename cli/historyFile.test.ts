@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { appendHistoryEntries } from './historyFile';
+import { exportHistoryJson, parseHistoryImport } from '../services/historyTransfer';
+import { HistoryEntry } from '../types';
+
+function entry(id: string): HistoryEntry {
+  return { id, input: 'rough', output: 'Polished.', tone: 'Friendly', outputLanguage: 'English', timestamp: Date.parse(id) };
+}
+
+describe('appendHistoryEntries', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'history-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('creates the file and adds new entries first', async () => {
+    const path = join(directory, 'nested', 'history.json');
+    await appendHistoryEntries(path, [entry('2026-01-01T00:00:00.000Z')]);
+    await appendHistoryEntries(path, [entry('2026-01-02T00:00:00.000Z')]);
+
+    const { entries } = parseHistoryImport(await readFile(path, 'utf8'));
+    expect(entries.map(e => e.id)).toEqual(['2026-01-02T00:00:00.000Z', '2026-01-01T00:00:00.000Z']);
+  });
+
+  it('leaves a file with unreadable entries untouched', async () => {
+    const path = join(directory, 'history.json');
+    const json = exportHistoryJson([entry('2026-01-01T00:00:00.000Z'), { ...entry('2026-01-02T00:00:00.000Z'), starred: 'yes' } as unknown as HistoryEntry]);
+    await writeFile(path, json);
+
+    await expect(appendHistoryEntries(path, [entry('2026-01-03T00:00:00.000Z')])).rejects.toThrow('1 entry in the file could not be read');
+    expect(await readFile(path, 'utf8')).toBe(json);
+  });
+});
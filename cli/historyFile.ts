@@ -0,0 +1,30 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { HistoryEntry } from '../types';
+import { exportHistoryJson, parseHistoryImport } from '../services/historyTransfer';
+
+// The file holds a regular history export, newest entry first, like the web app's list
+export async function readHistoryFile(path: string): Promise<HistoryEntry[]> {
+  let json: string;
+  try {
+    json = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  const { entries, rejected } = parseHistoryImport(json);
+  // Rewriting the file would drop whatever the validator didn't accept, e.g. entries from a newer app version
+  if (rejected > 0) {
+    throw new Error(`${rejected} ${rejected === 1 ? 'entry' : 'entries'} in the file could not be read, so it was left unchanged`);
+  }
+  return entries;
+}
+
+export async function appendHistoryEntries(path: string, entries: HistoryEntry[]) {
+  const existing = await readHistoryFile(path);
+  await mkdir(dirname(path), { recursive: true });
+  // Written to a temporary file first so an interrupted write can't truncate the history
+  const temporary = `${path}.tmp`;
+  await writeFile(temporary, exportHistoryJson([...entries, ...existing]));
+  await rename(temporary, path);
+}
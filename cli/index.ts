@@ -0,0 +1,187 @@
+import { existsSync } from 'node:fs';
+import { HistoryEntry, ToneProfile, UsageRecord } from '../types';
+import { TranslateOptions, TranslationResult, setTranslationConfig, translateThought, translateVariants } from '../services/geminiService';
+import { ProviderId } from '../services/providers/types';
+import { TranslationErrorKind, errorGuidance, toTranslationError } from '../services/errors';
+import { TranslationStatus, isSuccessful, statusGuidance } from '../services/structuredOutput';
+import { builtInToneProfiles } from '../services/toneProfiles';
+import { builtInPromptPreset } from '../services/promptPresets';
+import { CliOptions, UsageError, parseCliArgs, usage } from './args';
+import { appendHistoryEntries } from './historyFile';
+
+// One exit code per error class, so scripts can react without parsing messages
+export const EXIT_CODES: Record<TranslationErrorKind | Exclude<TranslationStatus, 'ok'> | 'usage', number> = {
+  unknown: 1,
+  usage: 2,
+  auth: 3,
+  quota: 4,
+  safety: 5,
+  network: 6,
+  empty: 7,
+  malformed: 8,
+  'too-large': 9,
+  server: 10,
+  needs_clarification: 11,
+  refused: 12,
+  // The shell convention for a process stopped with Ctrl+C
+  aborted: 130,
+};
+
+// Same variables as the web app's .env.local; GEMINI_API_KEY is read directly since there is no Vite to rename it
+function configureFromEnv(env: NodeJS.ProcessEnv) {
+  const provider = (env.TRANSLATION_PROVIDER || 'gemini') as ProviderId;
+  setTranslationConfig({
+    provider,
+    model: env.TRANSLATION_MODEL || undefined,
+    baseUrl: env.OPENAI_BASE_URL,
+    apiKey: provider === 'openai' ? env.OPENAI_API_KEY : env.GEMINI_API_KEY ?? env.API_KEY,
+    proxyUrl: env.PROXY_URL,
+  });
+}
+
+function resolveTone(name: string): ToneProfile {
+  const tone = builtInToneProfiles.find(profile => profile.name.toLowerCase() === name.trim().toLowerCase());
+  if (!tone) {
+    throw new UsageError(`Unknown tone "${name}"; use one of: ${builtInToneProfiles.map(profile => profile.name).join(', ')}`);
+  }
+  return tone;
+}
+
+async function readInput(options: CliOptions): Promise<string> {
+  if (options.text.length > 0) {
+    return options.text.join(' ');
+  }
+  if (process.stdin.isTTY) {
+    throw new UsageError("No text to translate; pass it as arguments or pipe it in");
+  }
+  let text = '';
+  process.stdin.setEncoding('utf8');
+  for await (const chunk of process.stdin) {
+    text += chunk;
+  }
+  return text;
+}
+
+function reportUnsuccessful(result: TranslationResult): number {
+  const status = result.status as Exclude<TranslationStatus, 'ok'>;
+  console.error(statusGuidance[status]);
+  for (const question of result.questions ?? []) {
+    console.error(`- ${question}`);
+  }
+  return EXIT_CODES[status];
+}
+
+async function run(options: CliOptions, signal: AbortSignal): Promise<number> {
+  const tone = resolveTone(options.tone);
+  const input = (await readInput(options)).trim();
+  if (!input) {
+    throw new UsageError("No text to translate");
+  }
+
+  const translateOptions: TranslateOptions = {
+    signal,
+    sourceLanguage: options.sourceLanguage,
+    structured: options.selfCheck,
+  };
+  let result: TranslationResult;
+  let variants: string[] | undefined;
+  let usageRecords: UsageRecord[] | undefined;
+  let streamed = false;
+
+  try {
+    if (options.variants > 1) {
+      // Parallel candidates can't share stdout, so each is printed once it's complete
+      const results = await translateVariants(input, tone, options.language, options.variants, () => {}, translateOptions);
+      const fulfilled = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+      const successes = fulfilled.filter(isSuccessful);
+      if (successes.length === 0) {
+        if (fulfilled.length > 0) return reportUnsuccessful(fulfilled[0]);
+        throw (results[0] as PromiseRejectedResult).reason;
+      }
+      result = successes[0];
+      variants = successes.map(candidate => candidate.text);
+      // All candidates were paid for, not just the one saved as the output
+      usageRecords = fulfilled.flatMap(candidate => candidate.usage ? [candidate.usage] : []);
+      if (!options.json) {
+        process.stdout.write(variants.map((text, i) => `${i + 1}. ${text}`).join('\n\n') + '\n');
+      }
+    } else {
+      result = await translateThought(input, tone, options.language, (chunk) => {
+        if (options.json) return;
+        streamed = true;
+        process.stdout.write(chunk);
+      }, translateOptions);
+      if (streamed) process.stdout.write('\n');
+      if (!isSuccessful(result)) return reportUnsuccessful(result);
+      usageRecords = result.usage && [result.usage];
+    }
+  } catch (error) {
+    // Keep the partial output on its own line before the error message
+    if (streamed) process.stdout.write('\n');
+    throw error;
+  }
+
+  const entry: HistoryEntry = {
+    id: new Date().toISOString(),
+    input,
+    output: result.text,
+    tone: tone.name,
+    toneProfile: tone,
+    promptPreset: builtInPromptPreset,
+    outputLanguage: options.language,
+    sourceLanguage: result.sourceLanguage,
+    timestamp: Date.now(),
+    variants,
+    backTranslation: result.backTranslation,
+    usage: usageRecords,
+  };
+
+  if (options.historyFile) {
+    try {
+      await appendHistoryEntries(options.historyFile, [entry]);
+    } catch (error) {
+      // The translation itself succeeded, so this is only a warning
+      console.error(`Couldn't write history to ${options.historyFile}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  if (options.json) {
+    process.stdout.write(JSON.stringify(entry, null, 2) + '\n');
+  }
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  try {
+    const options = parseCliArgs(argv);
+    if (options.help) {
+      console.log(usage);
+      return 0;
+    }
+    if (existsSync('.env.local')) {
+      process.loadEnvFile('.env.local');
+    }
+    configureFromEnv(process.env);
+
+    // Ctrl+C stops the request; whatever was streamed so far stays on screen
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+    return await run(options, controller.signal);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${usage}`);
+      return EXIT_CODES.usage;
+    }
+    const translationError = toTranslationError(error);
+    if (translationError.kind === 'aborted') {
+      console.error("Stopped.");
+    } else {
+      const guidance = errorGuidance[translationError.kind];
+      console.error(`${guidance.message} ${guidance.nextStep}\n(${translationError.message})`);
+    }
+    return EXIT_CODES[translationError.kind];
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
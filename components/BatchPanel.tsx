@@ -0,0 +1,225 @@
+import React, { useRef, useState } from 'react';
+import { ToneProfile } from '../types';
+import { translateThought, TranslateOptions } from '../services/geminiService';
+import { errorGuidance, toTranslationError } from '../services/errors';
+import { statusGuidance } from '../services/structuredOutput';
+import { BatchDelimiter, BatchSource, batchFileDetails, parseBatchFile, parseBatchText, runWithConcurrency } from '../services/batch';
+import { downloadFile } from '../utils/download';
+import { SparklesIcon, CheckIcon, StopIcon } from './icons';
+
+interface BatchRow {
+  input: string;
+  status: 'pending' | 'running' | 'done' | 'error';
+  output: string;
+  error?: string;
+}
+
+interface BatchPanelProps {
+  tone: ToneProfile;
+  language: string;
+  // Shared settings such as the glossary and input language; the panel supplies its own signal
+  options: Omit<TranslateOptions, 'signal'>;
+  // Returning false stops the run before any request is sent
+  beforeRun?: () => boolean;
+}
+
+const MAX_CONCURRENCY = 5;
+
+const fieldClassName = "p-2 bg-zinc-900/70 border border-zinc-600 rounded-lg focus:ring-2 focus:ring-[#ff91af] focus:border-[#ff91af] text-sm";
+
+const statusStyles: Record<BatchRow['status'], string> = {
+  pending: 'text-zinc-500',
+  running: 'text-[#ff91af]',
+  done: 'text-green-400',
+  error: 'text-red-400',
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ tone, language, options, beforeRun }) => {
+  const [pasteText, setPasteText] = useState<string>('');
+  const [delimiter, setDelimiter] = useState<BatchDelimiter>('line');
+  const [customDelimiter, setCustomDelimiter] = useState<string>('---');
+  const [concurrency, setConcurrency] = useState<number>(3);
+  const [source, setSource] = useState<BatchSource | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const loadSource = (next: BatchSource) => {
+    setSource(next);
+    setRows(next.items.map(input => ({ input, status: 'pending', output: '' })));
+    setMessage(next.items.length === 0 ? "No items found." : null);
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      loadSource(parseBatchFile(file.name, await file.text(), delimiter, customDelimiter));
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : "Couldn't read that file.");
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<BatchRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  // Translates the given rows, at most `concurrency` at a time
+  const run = async (indexes: number[]) => {
+    if (isRunning || indexes.length === 0) return;
+    if (beforeRun && !beforeRun()) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setRows(prev => prev.map((row, i) => indexes.includes(i) ? { ...row, status: 'pending', output: '', error: undefined } : row));
+
+    await runWithConcurrency(indexes, concurrency, async (index) => {
+      if (controller.signal.aborted) return;
+      updateRow(index, { status: 'running' });
+      try {
+        const result = await translateThought(rows[index].input, tone, language, (chunk) => {
+          setRows(prev => prev.map((row, i) => i === index ? { ...row, output: row.output + chunk } : row));
+        }, { ...options, signal: controller.signal });
+        if (result.status && result.status !== 'ok') {
+          // A clarification request or refusal is a failed row, not a translation
+          updateRow(index, { status: 'error', output: '', error: statusGuidance[result.status] });
+        } else {
+          updateRow(index, { status: 'done', output: result.text });
+        }
+      } catch (err) {
+        const translationError = toTranslationError(err);
+        updateRow(index, { status: 'error', error: errorGuidance[translationError.kind].message });
+      }
+    });
+
+    abortControllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleDownload = () => {
+    if (!source) return;
+    // Rows without a translation keep their original text so the document lines up
+    const outputs = rows.map(row => row.status === 'done' ? row.output : row.input);
+    const { extension, mimeType } = batchFileDetails[source.format];
+    downloadFile(source.render(outputs), `${source.fileName}-translated.${extension}`, mimeType);
+  };
+
+  const doneCount = rows.filter(row => row.status === 'done').length;
+  const failedIndexes = rows.flatMap((row, i) => row.status === 'error' ? [i] : []);
+  const pendingIndexes = rows.flatMap((row, i) => row.status === 'pending' ? [i] : []);
+
+  return (
+    <div className="bg-zinc-800/50 p-6 rounded-xl shadow-lg border border-zinc-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-zinc-300">Batch</h2>
+        <span className="text-sm text-zinc-500">{tone.name} · {language}</span>
+      </div>
+
+      {!source ? (
+        <>
+          <textarea
+            value={pasteText}
+            onChange={(e) => setPasteText(e.target.value)}
+            placeholder="Paste many thoughts here, split by the delimiter below..."
+            className={`${fieldClassName} w-full h-36 resize-none`}
+          />
+          <div className="flex flex-wrap gap-2 items-center">
+            <select value={delimiter} onChange={(e) => setDelimiter(e.target.value as BatchDelimiter)} className={fieldClassName} aria-label="Delimiter">
+              <option value="line">One per line</option>
+              <option value="blank-line">Split on blank lines</option>
+              <option value="custom">Custom delimiter</option>
+            </select>
+            {delimiter === 'custom' && (
+              <input type="text" value={customDelimiter} onChange={(e) => setCustomDelimiter(e.target.value)} className={`${fieldClassName} w-24`} aria-label="Custom delimiter" />
+            )}
+            <button
+              type="button"
+              onClick={() => loadSource(parseBatchText(pasteText, delimiter, customDelimiter))}
+              disabled={!pasteText.trim()}
+              className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg disabled:opacity-50"
+            >
+              Split into items
+            </button>
+            <span className="text-sm text-zinc-500">or</span>
+            <button type="button" onClick={() => fileInputRef.current?.click()} className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg">
+              Upload .txt, .csv or .md
+            </button>
+            <input ref={fileInputRef} type="file" accept=".txt,.csv,.md,.markdown,text/plain,text/csv,text/markdown" onChange={handleUpload} className="hidden" />
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 items-center text-sm">
+            <span className="text-zinc-400">{doneCount}/{rows.length} done{failedIndexes.length > 0 ? `, ${failedIndexes.length} failed` : ''}</span>
+            <label className="flex items-center gap-2 text-zinc-400 ml-auto">
+              Parallel
+              <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} className={fieldClassName} disabled={isRunning}>
+                {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          </div>
+          <div className="h-1.5 bg-zinc-700 rounded-full overflow-hidden">
+            <div className="h-full bg-[#ff91af] transition-all" style={{ width: `${rows.length ? (doneCount / rows.length) * 100 : 0}%` }} />
+          </div>
+          <ol className="space-y-2 max-h-[50vh] overflow-y-auto pr-2">
+            {rows.map((row, index) => (
+              <li key={index} className="bg-zinc-900/50 p-3 rounded-lg text-sm">
+                <div className="flex justify-between gap-2">
+                  <p className="text-zinc-400 truncate">{index + 1}. {row.input}</p>
+                  <span className={`shrink-0 flex items-center gap-1 ${statusStyles[row.status]}`}>
+                    {row.status === 'running' && <SparklesIcon className="w-4 h-4 animate-spin" />}
+                    {row.status === 'done' && <CheckIcon className="w-4 h-4" />}
+                    {row.status}
+                  </span>
+                </div>
+                {row.output && <p className="mt-1 whitespace-pre-wrap text-zinc-300">{row.output}</p>}
+                {row.error && (
+                  <div className="mt-1 flex justify-between items-center gap-2">
+                    <p className="text-red-400">{row.error}</p>
+                    <button type="button" onClick={() => run([index])} disabled={isRunning} className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 rounded-full disabled:opacity-50">Retry</button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+          <div className="flex flex-wrap gap-2">
+            {isRunning ? (
+              <button type="button" onClick={() => abortControllerRef.current?.abort()} className="flex items-center gap-2 px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg">
+                <StopIcon className="w-4 h-4" /> Stop
+              </button>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => run(pendingIndexes)}
+                  disabled={pendingIndexes.length === 0}
+                  className="px-4 py-2 text-sm bg-[#ff91af] text-zinc-900 font-semibold rounded-lg disabled:opacity-50"
+                >
+                  Translate {pendingIndexes.length} item{pendingIndexes.length === 1 ? '' : 's'}
+                </button>
+                {failedIndexes.length > 0 && (
+                  <button type="button" onClick={() => run(failedIndexes)} className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg">
+                    Retry {failedIndexes.length} failed
+                  </button>
+                )}
+                <button type="button" onClick={handleDownload} disabled={doneCount === 0} className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg disabled:opacity-50">
+                  Download .{batchFileDetails[source.format].extension}
+                </button>
+                <button type="button" onClick={() => { setSource(null); setRows([]); }} className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg ml-auto">
+                  Start over
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      {message && <p className="text-sm text-zinc-400">{message}</p>}
+    </div>
+  );
+};
+
+export default BatchPanel;
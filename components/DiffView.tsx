@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { diffWords, checkAdditions, sharedWordRatio } from '../utils/wordDiff';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+}
+
+// Below this share of common words the texts are most likely in different languages
+const DIFFERENT_LANGUAGE_RATIO = 0.1;
+// Rule 4 asks for a similar length; flag rewrites that grow noticeably
+const EXPANSION_RATIO = 1.5;
+
+const DiffView: React.FC<DiffViewProps> = ({ before, after }) => {
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+  const additions = useMemo(() => checkAdditions(before, after, parts), [before, after, parts]);
+  const likelyDifferentLanguage = sharedWordRatio(parts) < DIFFERENT_LANGUAGE_RATIO;
+
+  return (
+    <div className="space-y-3">
+      {likelyDifferentLanguage && (
+        <p className="text-xs text-zinc-500">
+          Few words match the original, so the output is probably in another language. The diff is most useful when the languages match.
+        </p>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">Original</p>
+          <p className="whitespace-pre-wrap text-zinc-300">
+            {parts.map((part, i) => {
+              if (part.type === 'equal') return <span key={i}>{part.text}</span>;
+              if (part.type === 'delete') return <del key={i} className="bg-red-900/40 text-red-300">{part.text}</del>;
+              if (part.type === 'replace') return <del key={i} className="bg-amber-900/40 text-amber-300">{part.removed}</del>;
+              return null;
+            })}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">Polished</p>
+          <p className="whitespace-pre-wrap text-zinc-300">
+            {parts.map((part, i) => {
+              if (part.type === 'equal') return <span key={i}>{part.text}</span>;
+              if (part.type === 'insert') return <ins key={i} className="no-underline bg-green-900/40 text-green-300">{part.text}</ins>;
+              if (part.type === 'replace') return <ins key={i} className="no-underline bg-amber-900/40 text-amber-300">{part.added}</ins>;
+              return null;
+            })}
+          </p>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs text-zinc-500">
+        <span><span className="inline-block w-2 h-2 rounded-full bg-green-500 mr-1" />Inserted</span>
+        <span><span className="inline-block w-2 h-2 rounded-full bg-red-500 mr-1" />Deleted</span>
+        <span><span className="inline-block w-2 h-2 rounded-full bg-amber-500 mr-1" />Substituted</span>
+      </div>
+      {!likelyDifferentLanguage && (additions.newWords.length > 0 || additions.lengthRatio > EXPANSION_RATIO) && (
+        <div className="text-sm text-yellow-300 bg-yellow-900/20 p-3 rounded-lg border border-yellow-800/60">
+          <p className="font-semibold">Check for added information</p>
+          {additions.newWords.length > 0 && (
+            <p className="mt-1">New words not in your original: {additions.newWords.join(', ')}</p>
+          )}
+          {additions.lengthRatio > EXPANSION_RATIO && (
+            <p className="mt-1">The rewrite is {Math.round((additions.lengthRatio - 1) * 100)}% longer than your original.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { GlossaryEntry } from '../types';
+import { TrashIcon } from './icons';
+
+interface GlossaryManagerProps {
+  entries: GlossaryEntry[];
+  languages: string[];
+  onAdd: (entry: GlossaryEntry) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const fieldClassName = "w-full p-2 bg-zinc-900/70 border border-zinc-600 rounded-lg focus:ring-2 focus:ring-[#ff91af] focus:border-[#ff91af] text-sm";
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ entries, languages, onAdd, onDelete, onClose }) => {
+  const [term, setTerm] = useState<string>('');
+  const [kind, setKind] = useState<GlossaryEntry['kind']>('protected');
+  const [rendering, setRendering] = useState<string>('');
+  const [language, setLanguage] = useState<string>(languages[0] ?? '');
+
+  const canAdd = term.trim() !== '' && (kind === 'protected' || rendering.trim() !== '');
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd(kind === 'protected'
+      ? { id: crypto.randomUUID(), term: term.trim(), kind }
+      : { id: crypto.randomUUID(), term: term.trim(), kind, rendering: rendering.trim(), language });
+    setTerm('');
+    setRendering('');
+  };
+
+  return (
+    <div className="bg-zinc-800/50 p-6 rounded-xl shadow-lg border border-zinc-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-zinc-300">Glossary</h2>
+        <button type="button" onClick={onClose} className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full">Done</button>
+      </div>
+      <p className="text-sm text-zinc-500">
+        Protected terms stay exactly as written. Mappings set how a term should be rendered in one output language.
+      </p>
+
+      {entries.length > 0 && (
+        <ul className="space-y-2">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex justify-between items-center gap-2 bg-zinc-900/50 p-3 rounded-lg text-sm">
+              <span className="min-w-0 truncate text-zinc-300">
+                {entry.kind === 'protected'
+                  ? <><span className="font-medium">{entry.term}</span> <span className="text-zinc-500">· keep verbatim</span></>
+                  : <><span className="font-medium">{entry.term}</span> → {entry.rendering} <span className="text-zinc-500">· {entry.language}</span></>}
+              </span>
+              <button type="button" onClick={() => onDelete(entry.id)} className="p-1.5 bg-zinc-700 hover:bg-red-500 rounded-full shrink-0" aria-label={`Delete ${entry.term}`}>
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 border-t border-zinc-700 pt-4">
+        <input type="text" placeholder="Term, e.g. ThoughtSync" value={term} onChange={(e) => setTerm(e.target.value)} className={fieldClassName} />
+        <select value={kind} onChange={(e) => setKind(e.target.value as GlossaryEntry['kind'])} className={fieldClassName} aria-label="Glossary entry type">
+          <option value="protected">Keep verbatim</option>
+          <option value="mapping">Preferred rendering</option>
+        </select>
+        {kind === 'mapping' && (
+          <>
+            <input type="text" placeholder="Rendering" value={rendering} onChange={(e) => setRendering(e.target.value)} className={fieldClassName} />
+            <select value={language} onChange={(e) => setLanguage(e.target.value)} className={fieldClassName} aria-label="Output language">
+              {languages.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </>
+        )}
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="sm:col-span-2 px-3 py-2 text-sm bg-[#ff91af] text-zinc-900 font-semibold rounded-lg disabled:opacity-50"
+        >
+          Add to Glossary
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryManager;
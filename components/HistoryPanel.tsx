@@ -0,0 +1,352 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { HistoryEntry } from '../types';
+import { HistoryFilters, emptyHistoryFilters, filterHistory, groupHistory, hasActiveFilters } from '../utils/historyFilter';
+import { DuplicateMode, ExportFormat, ImportSummary, ParsedImport, exportFileDetails, exportHistory, parseHistoryImport } from '../services/historyTransfer';
+import { downloadFile } from '../utils/download';
+import { OfflineQueue } from '../hooks/useOfflineQueue';
+import { CopyIcon, CheckIcon, TrashIcon, StarIcon, SpeakerWaveIcon, SpeakerXMarkIcon, LinkIcon } from './icons';
+
+// Entries rendered per page; more are appended on demand so long histories stay fast
+const PAGE_SIZE = 50;
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  copiedId: string | null;
+  // Id of what is being read aloud; entries use `history-<entry id>`
+  speakingId: string | null;
+  onLoad: (entry: HistoryEntry) => void;
+  onCopy: (text: string, id: string) => void;
+  onSpeak: (entry: HistoryEntry) => void;
+  // Copies a share link; its copied state uses `share-<entry id>`
+  onShare: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onToggleStar: (entry: HistoryEntry) => void;
+  onClear: () => void;
+  onImport: (parsed: ParsedImport, mode: DuplicateMode) => ImportSummary;
+  // Requests made offline, listed above the history until they are sent
+  queue: Pick<OfflineQueue, 'isOnline' | 'items' | 'sendingId' | 'retry' | 'remove'>;
+}
+
+const filterClassName = "w-full px-2 py-1.5 bg-zinc-900 border border-zinc-600 rounded-md text-sm focus:ring-1 focus:ring-[#ff91af] focus:border-[#ff91af]";
+
+function formatTimestamp(timestamp: number): string {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString() ? time : `${date.toLocaleDateString()} ${time}`;
+}
+
+function describeImport(summary: ImportSummary): string {
+  const parts = [`${summary.added} added`];
+  if (summary.merged) parts.push(`${summary.merged} merged`);
+  if (summary.skipped) parts.push(`${summary.skipped} duplicates skipped`);
+  if (summary.rejected) parts.push(`${summary.rejected} rejected as invalid`);
+  return `Import finished: ${parts.join(', ')}.`;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, copiedId, speakingId, onLoad, onCopy, onSpeak, onShare, onDelete, onToggleStar, onClear, onImport, queue }) => {
+  const [filters, setFilters] = useState<HistoryFilters>(emptyHistoryFilters);
+  const [isFilterOpen, setIsFilterOpen] = useState<boolean>(false);
+  const [visibleCount, setVisibleCount] = useState<number>(PAGE_SIZE);
+  const [confirmClear, setConfirmClear] = useState<boolean>(false);
+  const [isTransferOpen, setIsTransferOpen] = useState<boolean>(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>('skip');
+  const [transferMessage, setTransferMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const filtered = useMemo(() => filterHistory(entries, filters), [entries, filters]);
+  const tones = useMemo(() => [...new Set(entries.map(entry => entry.tone))].sort(), [entries]);
+  const languages = useMemo(() => [...new Set(entries.map(entry => entry.outputLanguage))].sort(), [entries]);
+  const visible = filtered.slice(0, visibleCount);
+  const groups = groupHistory(visible);
+
+  const updateFilters = (changes: Partial<HistoryFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  // Exports what the current search and filters show, or everything when none are active
+  const handleExport = () => {
+    const { extension, mimeType } = exportFileDetails[exportFormat];
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(exportHistory(filtered, exportFormat), `thought-translator-history-${date}.${extension}`, mimeType);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const summary = onImport(parseHistoryImport(await file.text()), duplicateMode);
+      setTransferMessage(describeImport(summary));
+    } catch (e) {
+      setTransferMessage(`Import failed: ${e instanceof Error ? e.message : 'invalid file'}`);
+    }
+  };
+
+  const handleClearHistory = () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      setTimeout(() => setConfirmClear(false), 3000); // Revert after 3 seconds
+    } else {
+      onClear();
+      setConfirmClear(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-zinc-300">History</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => { setIsTransferOpen(prev => !prev); setTransferMessage(null); }}
+            className="px-3 py-1 text-sm rounded-full bg-zinc-700 text-zinc-400 hover:bg-zinc-600 hover:text-zinc-200 transition-colors"
+            aria-expanded={isTransferOpen}
+          >
+            Import / Export
+          </button>
+          {entries.length > 0 && (
+            <button
+              onClick={handleClearHistory}
+              className={`px-3 py-1 text-sm rounded-full transition-colors duration-300 ${
+                confirmClear ? 'bg-yellow-500 text-black' : 'bg-zinc-700 text-zinc-400 hover:bg-red-500/80 hover:text-white'
+              }`}
+            >
+              {confirmClear ? "Click to Confirm" : "Clear All"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isTransferOpen && (
+        <div className="mb-4 space-y-3 bg-zinc-800/50 p-3 rounded-lg border border-zinc-700 text-sm">
+          <div className="flex gap-2 items-center">
+            <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)} className={filterClassName} aria-label="Export format">
+              <option value="json">JSON (re-importable)</option>
+              <option value="csv">CSV (spreadsheets)</option>
+              <option value="markdown">Markdown (docs)</option>
+            </select>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={filtered.length === 0}
+              className="shrink-0 px-3 py-1.5 bg-zinc-700 hover:bg-zinc-600 rounded-md disabled:opacity-50"
+            >
+              Export {hasActiveFilters(filters) ? `${filtered.length} filtered` : 'all'}
+            </button>
+          </div>
+          <div className="flex gap-2 items-center">
+            <select value={duplicateMode} onChange={(e) => setDuplicateMode(e.target.value as DuplicateMode)} className={filterClassName} aria-label="Duplicate handling">
+              <option value="skip">Skip duplicates</option>
+              <option value="merge">Merge duplicates</option>
+            </select>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="shrink-0 px-3 py-1.5 bg-zinc-700 hover:bg-zinc-600 rounded-md"
+            >
+              Import JSON
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </div>
+          {transferMessage && <p className="text-zinc-400">{transferMessage}</p>}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="mb-4 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="search"
+              placeholder="Search history..."
+              value={filters.query}
+              onChange={(e) => updateFilters({ query: e.target.value })}
+              className={filterClassName}
+            />
+            <button
+              type="button"
+              onClick={() => setIsFilterOpen(prev => !prev)}
+              className={`px-3 text-sm rounded-md transition-colors ${hasActiveFilters({ ...filters, query: '' }) ? 'bg-[#ff91af] text-zinc-900' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
+              aria-expanded={isFilterOpen}
+            >
+              Filters
+            </button>
+          </div>
+          {isFilterOpen && (
+            <div className="grid grid-cols-2 gap-2 bg-zinc-800/50 p-3 rounded-lg border border-zinc-700">
+              <select value={filters.tone} onChange={(e) => updateFilters({ tone: e.target.value })} className={filterClassName} aria-label="Filter by tone">
+                <option value="">All tones</option>
+                {tones.map(tone => <option key={tone} value={tone}>{tone}</option>)}
+              </select>
+              <select value={filters.language} onChange={(e) => updateFilters({ language: e.target.value })} className={filterClassName} aria-label="Filter by language">
+                <option value="">All languages</option>
+                {languages.map(language => <option key={language} value={language}>{language}</option>)}
+              </select>
+              <input type="date" value={filters.dateFrom} onChange={(e) => updateFilters({ dateFrom: e.target.value })} className={filterClassName} aria-label="From date" />
+              <input type="date" value={filters.dateTo} onChange={(e) => updateFilters({ dateTo: e.target.value })} className={filterClassName} aria-label="To date" />
+              <label className="flex items-center gap-2 text-sm text-zinc-400 col-span-2">
+                <input type="checkbox" checked={filters.starredOnly} onChange={(e) => updateFilters({ starredOnly: e.target.checked })} />
+                Starred only
+              </label>
+              {hasActiveFilters(filters) && (
+                <button type="button" onClick={() => updateFilters(emptyHistoryFilters)} className="col-span-2 text-sm text-zinc-400 hover:text-zinc-200">
+                  Reset filters
+                </button>
+              )}
+            </div>
+          )}
+          {hasActiveFilters(filters) && (
+            <p className="text-xs text-zinc-500">{filtered.length} of {entries.length} entries</p>
+          )}
+        </div>
+      )}
+
+      {queue.items.length > 0 && (
+        <div className="mb-4 space-y-2" aria-label="Waiting to send" role="list">
+          {queue.items.map(item => {
+            const isSending = queue.sendingId === item.id;
+            return (
+              <div key={item.id} role="listitem" className="bg-zinc-800/30 p-3 rounded-xl border border-dashed border-zinc-600 text-sm">
+                <div className="flex items-start gap-2">
+                  <p className="flex-1 text-zinc-400 line-clamp-2">"{item.input}"</p>
+                  <span className={`shrink-0 px-2 py-0.5 text-xs rounded-full ${item.error ? 'bg-red-900/40 text-red-300' : 'bg-yellow-900/40 text-yellow-300'}`}>
+                    {item.error ? 'Failed' : isSending ? 'Sending…' : 'Pending'}
+                  </span>
+                </div>
+                {item.error && <p className="mt-2 text-xs text-red-300/80">{item.error}</p>}
+                <div className="mt-2 text-xs text-zinc-500 flex justify-between items-center">
+                  <span>
+                    {item.tone.name} | {item.languages.join(', ')}
+                    {!item.error && !isSending && !queue.isOnline ? ' | waiting for connection' : ''}
+                  </span>
+                  {!isSending && (
+                    <span className="flex gap-3">
+                      {item.error && (
+                        <button type="button" onClick={() => queue.retry(item.id)} className="text-zinc-400 hover:text-zinc-200">Retry</button>
+                      )}
+                      <button type="button" onClick={() => queue.remove(item.id)} className="text-zinc-400 hover:text-red-400">Remove</button>
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+          <div className="text-center py-10 bg-zinc-800/50 rounded-lg border border-dashed border-zinc-700">
+              <p className="text-zinc-500">Your translations will appear here.</p>
+          </div>
+      ) : filtered.length === 0 ? (
+          <div className="text-center py-10 bg-zinc-800/50 rounded-lg border border-dashed border-zinc-700">
+              <p className="text-zinc-500">No entries match your search.</p>
+          </div>
+      ) : (
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-2">
+          {groups.map((group) => {
+              const [first] = group;
+              const isGroup = group.length > 1;
+              const starred = group.every(entry => entry.starred);
+              return (
+              <div
+                  key={first.id}
+                  className={`bg-zinc-800/50 p-4 rounded-xl shadow-md border border-zinc-700 transition-colors ${isGroup ? '' : 'cursor-pointer hover:border-[#ff91af]/50'}`}
+                  onClick={isGroup ? undefined : () => onLoad(first)}
+              >
+              <div className="mb-3 flex items-start gap-2">
+                  <p className="flex-1 text-sm text-zinc-400 truncate">"{first.input}"</p>
+                  <button
+                      onClick={(e) => {
+                          e.stopPropagation();
+                          // A group is starred or unstarred as a whole
+                          group.filter(entry => !!entry.starred === starred).forEach(onToggleStar);
+                      }}
+                      className={`shrink-0 ${starred ? 'text-yellow-400' : 'text-zinc-600 hover:text-zinc-400'}`}
+                      aria-label={starred ? "Unstar" : "Star"}
+                      aria-pressed={starred}
+                  >
+                      <StarIcon className="w-4 h-4" filled={starred} />
+                  </button>
+              </div>
+              <div className={isGroup ? 'space-y-2' : ''}>
+              {group.map(entry => {
+              const isReading = speakingId === `history-${entry.id}`;
+              return (
+              <div
+                  key={entry.id}
+                  className={`relative group ${isGroup ? 'cursor-pointer rounded-lg p-2 -mx-2 hover:bg-zinc-700/40' : ''}`}
+                  onClick={isGroup ? () => onLoad(entry) : undefined}
+              >
+                  {isGroup && <span className="block text-xs uppercase tracking-wide text-zinc-500 mb-1">{entry.outputLanguage}</span>}
+                  <p className={`text-zinc-300 whitespace-pre-wrap text-sm ${isGroup ? 'line-clamp-2' : 'line-clamp-3'}`}>{entry.output}</p>
+                  {/* Kept visible while the entry is read aloud, so it can be stopped */}
+                  <div className={`absolute -top-1 right-0 flex space-x-2 group-hover:opacity-100 transition-opacity ${isReading ? 'opacity-100' : 'opacity-0'}`}>
+                      <button
+                          onClick={(e) => { e.stopPropagation(); onSpeak(entry); }}
+                          className="p-1.5 bg-zinc-600 hover:bg-zinc-500 rounded-full"
+                          aria-label={isReading ? "Stop reading" : "Read aloud"}
+                      >
+                          {isReading ? <SpeakerXMarkIcon className="w-4 h-4 text-red-400" /> : <SpeakerWaveIcon className="w-4 h-4" />}
+                      </button>
+                      <button
+                          onClick={(e) => { e.stopPropagation(); onCopy(entry.output, entry.id); }}
+                          className="p-1.5 bg-zinc-600 hover:bg-zinc-500 rounded-full"
+                          aria-label="Copy"
+                      >
+                          {copiedId === entry.id ? <CheckIcon className="w-4 h-4 text-green-400" /> : <CopyIcon className="w-4 h-4" />}
+                      </button>
+                      <button
+                          onClick={(e) => { e.stopPropagation(); onShare(entry); }}
+                          className="p-1.5 bg-zinc-600 hover:bg-zinc-500 rounded-full"
+                          aria-label="Copy share link"
+                      >
+                          {copiedId === `share-${entry.id}` ? <CheckIcon className="w-4 h-4 text-green-400" /> : <LinkIcon className="w-4 h-4" />}
+                      </button>
+                      <button
+                          onClick={(e) => { e.stopPropagation(); onDelete(entry.id); }}
+                          className="p-1.5 bg-zinc-600 hover:bg-red-500 rounded-full"
+                          aria-label="Delete"
+                      >
+                          <TrashIcon className="w-4 h-4" />
+                      </button>
+                  </div>
+              </div>
+              );
+              })}
+              </div>
+              <div className="text-xs text-zinc-500 mt-3 flex justify-between items-center">
+                  <span>
+                      {first.tone} | {first.sourceLanguage ? `${first.sourceLanguage} → ` : ''}{group.map(entry => entry.outputLanguage).join(', ')}
+                      {!isGroup && first.refinements?.length ? ` | ${first.refinements.length} refined` : ''}
+                      {first.promptPreset && !first.promptPreset.builtIn ? ` | ${first.promptPreset.name} v${first.promptPreset.version}` : ''}
+                      {first.queuedAt && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded-full bg-green-900/40 text-green-300" title={`Queued offline ${formatTimestamp(first.queuedAt)}, sent when the connection returned`}>
+                              Sent
+                          </span>
+                      )}
+                  </span>
+                  <time dateTime={new Date(first.timestamp).toISOString()}>
+                      {formatTimestamp(first.timestamp)}
+                  </time>
+              </div>
+              </div>
+              );
+          })}
+          {filtered.length > visibleCount && (
+              <button
+                  type="button"
+                  onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)}
+                  className="w-full py-2 text-sm bg-zinc-800/50 hover:bg-zinc-700 border border-zinc-700 rounded-lg text-zinc-400"
+              >
+                  Show more ({filtered.length - visibleCount} remaining)
+              </button>
+          )}
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import LanguagePicker from './LanguagePicker';
+
+const languages = [
+  { name: 'English', code: 'en-US' },
+  { name: 'French', code: 'fr-FR' },
+  { name: 'German', code: 'de-DE' },
+];
+
+describe('LanguagePicker', () => {
+  it('filters the list and replaces the selection with the clicked language', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<LanguagePicker languages={languages} selected={['English']} onChange={onChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'English' }));
+    await user.type(screen.getByPlaceholderText('Search language...'), 'fre');
+    expect(screen.queryByRole('option', { name: /German/ })).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'French' }));
+
+    expect(onChange).toHaveBeenCalledWith(['French']);
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('adds languages with the checkbox but never removes the last one', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<LanguagePicker languages={languages} selected={['English']} onChange={onChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'English' }));
+    await user.click(screen.getByRole('checkbox', { name: 'Also translate into German' }));
+    expect(onChange).toHaveBeenLastCalledWith(['English', 'German']);
+
+    await user.click(screen.getByRole('checkbox', { name: 'Also translate into English' }));
+    expect(onChange).toHaveBeenLastCalledWith(['English']);
+  });
+
+  it('closes on a click outside', async () => {
+    const user = userEvent.setup();
+    render(<LanguagePicker languages={languages} selected={['English']} onChange={vi.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: 'English' }));
+    expect(screen.getByRole('listbox')).toBeInTheDocument();
+    await user.click(document.body);
+
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Language } from '../utils/languages';
+
+interface LanguagePickerProps {
+  languages: Language[];
+  // Language names; the first is the primary language
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// Dropdown with search. Clicking a name selects only that language; the checkbox beside it
+// adds or removes a language, keeping at least one selected.
+const LanguagePicker: React.FC<LanguagePickerProps> = ({ languages, selected, onChange }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [search, setSearch] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const toggle = (name: string) => {
+    onChange(selected.includes(name)
+      ? (selected.length > 1 ? selected.filter(language => language !== name) : selected)
+      : [...selected, name]);
+  };
+
+  const filteredLanguages = languages.filter(lang => lang.name.toLowerCase().includes(search.toLowerCase()));
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full p-2.5 bg-zinc-700 border border-zinc-600 rounded-lg focus:ring-2 focus:ring-[#ff91af] focus:border-[#ff91af] transition-colors duration-200 flex justify-between items-center text-left"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        <span className="truncate">{selected.join(', ')}</span>
+        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className={`transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} viewBox="0 0 16 16">
+          <path fillRule="evenodd" d="M1.646 4.646a.5.5 0 0 1 .708 0L8 10.293l5.646-5.647a.5.5 0 0 1 .708.708l-6 6a.5.5 0 0 1-.708 0l-6-6a.5.5 0 0 1 0-.708z"/>
+        </svg>
+      </button>
+      {isOpen && (
+        <div className="absolute z-10 top-full mt-2 w-full bg-zinc-800 border border-zinc-600 rounded-lg shadow-lg">
+          <div className="p-2">
+            <input
+              type="text"
+              placeholder="Search language..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full px-3 py-2 bg-zinc-900 border border-zinc-600 rounded-md focus:ring-1 focus:ring-[#ff91af] focus:border-[#ff91af]"
+              autoFocus
+            />
+          </div>
+          <ul className="max-h-60 overflow-y-auto" role="listbox" aria-multiselectable="true">
+            {filteredLanguages.length > 0 ? filteredLanguages.map(lang => (
+              <li key={lang.code} role="option" aria-selected={selected.includes(lang.name)} className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => {
+                    onChange([lang.name]);
+                    setIsOpen(false);
+                    setSearch('');
+                  }}
+                  className={`flex-1 text-left px-4 py-2 transition-colors ${selected.includes(lang.name) ? 'bg-[#ff91af]/20 text-white' : 'hover:bg-zinc-700/50'}`}
+                >
+                  {lang.name}
+                </button>
+                <input
+                  type="checkbox"
+                  checked={selected.includes(lang.name)}
+                  onChange={() => toggle(lang.name)}
+                  className="mx-3 accent-[#ff91af]"
+                  aria-label={`Also translate into ${lang.name}`}
+                />
+              </li>
+            )) : (
+              <li className="px-4 py-2 text-zinc-500">No results found.</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LanguagePicker;
@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+import { BlockNode, InlineNode, parseMarkdown } from '../utils/markdown';
+
+const headingStyles = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm'];
+
+function renderInline(nodes: InlineNode[]): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'code': return <code key={i} className="px-1 py-0.5 bg-zinc-800 rounded text-[#ff91af] text-sm">{node.text}</code>;
+      case 'strong': return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+      case 'del': return <del key={i}>{renderInline(node.children)}</del>;
+      case 'link': return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-[#ff91af] underline">{renderInline(node.children)}</a>;
+    }
+  });
+}
+
+function renderBlocks(blocks: BlockNode[]): React.ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${block.level}` as 'h1';
+        return <Heading key={i} className={`${headingStyles[block.level - 1]} font-bold text-zinc-200`}>{renderInline(block.children)}</Heading>;
+      }
+      case 'paragraph': return <p key={i} className="whitespace-pre-wrap">{renderInline(block.children)}</p>;
+      case 'code': return <pre key={i} className="p-3 bg-zinc-800 rounded-lg overflow-x-auto text-sm"><code>{block.text}</code></pre>;
+      case 'quote': return <blockquote key={i} className="pl-3 border-l-2 border-zinc-600 text-zinc-400 space-y-2">{renderBlocks(block.children)}</blockquote>;
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={i} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+          </List>
+        );
+      }
+      case 'rule': return <hr key={i} className="border-zinc-700" />;
+    }
+  });
+}
+
+const MarkdownPreview: React.FC<{ markdown: string }> = ({ markdown }) => {
+  const blocks = useMemo(() => parseMarkdown(markdown), [markdown]);
+  return <div className="space-y-3 text-zinc-300 break-words">{renderBlocks(blocks)}</div>;
+};
+
+export default MarkdownPreview;
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { PromptPreset } from '../types';
+import { DEFAULT_SYSTEM_RULES, buildSystemInstruction } from '../services/geminiService';
+import { builtInPromptPreset, createPromptPreset, updatePromptPreset } from '../services/promptPresets';
+import { TrashIcon } from './icons';
+
+interface PromptManagerProps {
+  presets: PromptPreset[];
+  active: PromptPreset;
+  // Whether structured output is on, which decides the output rules shown below the editor
+  structured: boolean;
+  onSelect: (id: string) => void;
+  onSave: (preset: PromptPreset) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const fieldClassName = "w-full p-2 bg-zinc-900/70 border border-zinc-600 rounded-lg focus:ring-2 focus:ring-[#ff91af] focus:border-[#ff91af] text-sm";
+
+const PromptManager: React.FC<PromptManagerProps> = ({ presets, active, structured, onSelect, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState<string>(active.name);
+  const [rules, setRules] = useState<string>(active.rules);
+  const [newName, setNewName] = useState<string>('');
+
+  // Switching presets, or saving a new version, discards the draft
+  useEffect(() => {
+    setName(active.name);
+    setRules(active.rules);
+  }, [active.id, active.version, active.name, active.rules]);
+
+  const isDirty = name.trim() !== active.name || rules.trim() !== active.rules;
+  const canSave = !active.builtIn && isDirty && name.trim() !== '' && rules.trim() !== '';
+  const canSaveAsNew = newName.trim() !== '' && rules.trim() !== '';
+
+  const handleSaveAsNew = () => {
+    if (!canSaveAsNew) return;
+    const preset = createPromptPreset(newName, rules);
+    onSave(preset);
+    onSelect(preset.id);
+    setNewName('');
+  };
+
+  return (
+    <div className="bg-zinc-800/50 p-6 rounded-xl shadow-lg border border-zinc-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-zinc-300">System Prompt</h2>
+        <button type="button" onClick={onClose} className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full">Done</button>
+      </div>
+      <p className="text-sm text-zinc-500">
+        These rules are sent with every translation. Saving changed rules creates a new version, and each history entry records the version it was made with.
+      </p>
+
+      <div className="flex gap-2">
+        <select value={active.id} onChange={(e) => onSelect(e.target.value)} className={fieldClassName} aria-label="Prompt preset">
+          <option value={builtInPromptPreset.id}>{builtInPromptPreset.name} (built-in)</option>
+          {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name} · v{preset.version}</option>)}
+        </select>
+        {!active.builtIn && (
+          <button type="button" onClick={() => onDelete(active.id)} className="p-2 bg-zinc-700 hover:bg-red-500 rounded-full shrink-0" aria-label={`Delete ${active.name}`}>
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {!active.builtIn && (
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={fieldClassName} aria-label="Preset name" />
+      )}
+      <textarea
+        value={rules}
+        onChange={(e) => setRules(e.target.value)}
+        rows={12}
+        className={`${fieldClassName} font-mono resize-y`}
+        aria-label="System prompt rules"
+      />
+      <p className="text-xs text-zinc-500">
+        {active.builtIn
+          ? `Built-in rules, version ${active.version}. Save edits as a new preset to use them.`
+          : `Version ${active.version}, saved ${new Date(active.updatedAt).toLocaleString()}${isDirty ? ' · unsaved changes' : ''}`}
+      </p>
+
+      <details className="text-sm text-zinc-400">
+        <summary className="cursor-pointer">Output rules (always added)</summary>
+        <pre className="mt-2 p-3 bg-zinc-900/50 rounded-lg whitespace-pre-wrap text-xs text-zinc-500">{buildSystemInstruction('', structured).trim()}</pre>
+      </details>
+
+      <div className="flex flex-wrap gap-2">
+        {!active.builtIn && (
+          <button
+            type="button"
+            onClick={() => onSave(updatePromptPreset(active, name, rules))}
+            disabled={!canSave}
+            className="px-3 py-2 text-sm bg-[#ff91af] text-zinc-900 font-semibold rounded-lg disabled:opacity-50"
+          >
+            Save version {rules.trim() !== active.rules ? active.version + 1 : active.version}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setRules(DEFAULT_SYSTEM_RULES)}
+          disabled={rules === DEFAULT_SYSTEM_RULES}
+          className="px-3 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg disabled:opacity-50"
+        >
+          Reset to default
+        </button>
+      </div>
+
+      <div className="flex gap-2 border-t border-zinc-700 pt-4">
+        <input type="text" placeholder="New preset name, e.g. Email drafts" value={newName} onChange={(e) => setNewName(e.target.value)} className={fieldClassName} />
+        <button
+          type="button"
+          onClick={handleSaveAsNew}
+          disabled={!canSaveAsNew}
+          className="px-3 py-2 text-sm bg-[#ff91af] text-zinc-900 font-semibold rounded-lg disabled:opacity-50 shrink-0"
+        >
+          Save as new preset
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PromptManager;
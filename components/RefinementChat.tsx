@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { RefinementTurn } from '../types';
+
+interface RefinementChatProps {
+  originalOutput: string;
+  turns: RefinementTurn[];
+  instruction: string;
+  onInstructionChange: (instruction: string) => void;
+  onSubmit: () => void;
+}
+
+const RefinementChat: React.FC<RefinementChatProps> = ({ originalOutput, turns, instruction, onInstructionChange, onSubmit }) => {
+  const [isThreadOpen, setIsThreadOpen] = useState<boolean>(false);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      {turns.length > 0 && (
+        <div>
+          <button
+            type="button"
+            onClick={() => setIsThreadOpen(prev => !prev)}
+            className="text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+            aria-expanded={isThreadOpen}
+          >
+            {isThreadOpen ? 'Hide' : 'Show'} refinement thread ({turns.length} {turns.length === 1 ? 'turn' : 'turns'})
+          </button>
+          {isThreadOpen && (
+            <ol className="mt-2 space-y-2 text-sm">
+              <li className="bg-zinc-900/50 p-3 rounded-lg">
+                <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">Original</p>
+                <p className="whitespace-pre-wrap text-zinc-400">{originalOutput}</p>
+              </li>
+              {turns.map((turn, index) => (
+                <li key={index} className="space-y-2">
+                  <p className="ml-auto w-fit max-w-[85%] bg-[#ff91af]/20 text-zinc-200 px-3 py-2 rounded-lg">{turn.instruction}</p>
+                  <div className="bg-zinc-900/50 p-3 rounded-lg">
+                    <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">Version {index + 2}</p>
+                    <p className="whitespace-pre-wrap text-zinc-400">{turn.output}</p>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <textarea
+          value={instruction}
+          onChange={(e) => onInstructionChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={1}
+          placeholder='Refine it, e.g. "make it warmer" or "use British spelling"'
+          className="flex-1 px-3 py-2 bg-zinc-900/70 border border-zinc-600 rounded-lg focus:ring-2 focus:ring-[#ff91af] focus:border-[#ff91af] text-sm resize-none"
+        />
+        <button
+          type="button"
+          onClick={onSubmit}
+          disabled={!instruction.trim()}
+          className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Refine
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RefinementChat;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { SharedTranslation } from '../services/shareLink';
+
+interface SharedViewProps {
+  shared: SharedTranslation | null;
+  // Shown instead of the translation when the link couldn't be opened
+  error: string | null;
+  onOpenInEditor: (shared: SharedTranslation) => void;
+  onSaveToHistory: (shared: SharedTranslation) => void;
+  onClose: () => void;
+}
+
+// Read-only view of a translation opened from a share link. Nothing is saved until the
+// recipient chooses to.
+const SharedView: React.FC<SharedViewProps> = ({ shared, error, onOpenInEditor, onSaveToHistory, onClose }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+    <div role="dialog" aria-modal="true" aria-label="Shared translation" className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-zinc-800 p-6 rounded-xl shadow-lg border border-zinc-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-zinc-300">Shared translation</h2>
+        <button type="button" onClick={onClose} className="text-sm text-zinc-400 hover:text-zinc-200">Close</button>
+      </div>
+      {error || !shared ? (
+        <div className="text-red-400 bg-red-900/30 p-3 rounded-lg border border-red-800" role="alert">
+          <p>{error}</p>
+          <p className="text-sm text-red-300/80 mt-1">Ask the sender for a new link, or close this to use the translator.</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-zinc-500">
+            {shared.tone.name} | {shared.sourceLanguage ? `${shared.sourceLanguage} → ` : ''}{shared.language}
+          </p>
+          {shared.input && (
+            <div>
+              <h3 className="text-sm font-semibold text-zinc-400 mb-1">Original</h3>
+              <p className="whitespace-pre-wrap text-sm text-zinc-400 bg-zinc-900/50 p-3 rounded-lg">{shared.input}</p>
+            </div>
+          )}
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-400 mb-1">Translation</h3>
+            <p className="whitespace-pre-wrap text-zinc-300 bg-zinc-900/70 p-4 rounded-lg">{shared.output}</p>
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => onSaveToHistory(shared)}
+              className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg transition-colors"
+            >
+              Save to my history
+            </button>
+            <button
+              type="button"
+              onClick={() => onOpenInEditor(shared)}
+              className="px-4 py-2 text-sm bg-[#ff91af] text-zinc-900 font-semibold rounded-lg transition-opacity hover:opacity-90"
+            >
+              Open in editor
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  </div>
+);
+
+export default SharedView;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { SpeechSynthesisControls } from '../hooks/useSpeechSynthesis';
+import { languageCode } from '../utils/languages';
+
+interface SpeechControlsProps {
+  speech: SpeechSynthesisControls;
+  // The listed language the text is read in
+  language: string;
+  onClose: () => void;
+}
+
+const fieldClassName = "p-2 bg-zinc-900/70 border border-zinc-600 rounded-lg focus:ring-2 focus:ring-[#ff91af] focus:border-[#ff91af] text-sm";
+
+// Voice, speed and pitch for reading aloud. The voice is remembered per language.
+const SpeechControls: React.FC<SpeechControlsProps> = ({ speech, language, onClose }) => {
+  const voices = speech.voicesFor(language);
+  const preferred = speech.settings.voices[languageCode(language)];
+  // A remembered voice that has since been uninstalled shows as automatic
+  const chosen = voices.some(voice => voice.voiceURI === preferred) ? preferred : '';
+
+  return (
+    <div className="mt-3 p-4 bg-zinc-900/50 rounded-lg border border-zinc-700 space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-semibold text-zinc-300">Read-aloud voice for {language}</h3>
+        <button type="button" onClick={onClose} className="text-sm text-zinc-400 hover:text-zinc-200">Close</button>
+      </div>
+      {voices.length > 0 ? (
+        <select
+          value={chosen}
+          onChange={(e) => speech.setVoice(language, e.target.value || null)}
+          className={`${fieldClassName} w-full`}
+          aria-label="Voice"
+        >
+          <option value="">Automatic ({voices[0].name})</option>
+          {voices.map(voice => (
+            <option key={voice.voiceURI} value={voice.voiceURI}>
+              {voice.name} ({voice.lang}{voice.localService ? '' : ', online'})
+            </option>
+          ))}
+        </select>
+      ) : (
+        <p className="text-sm text-zinc-500">No voices for {language} are installed; your browser's default voice is used.</p>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        <label className="text-sm text-zinc-400">
+          Speed {speech.settings.rate.toFixed(1)}×
+          <input
+            type="range"
+            min={0.5}
+            max={2}
+            step={0.1}
+            value={speech.settings.rate}
+            onChange={(e) => speech.setRate(Number(e.target.value))}
+            className="block w-full accent-[#ff91af]"
+          />
+        </label>
+        <label className="text-sm text-zinc-400">
+          Pitch {speech.settings.pitch.toFixed(1)}
+          <input
+            type="range"
+            min={0.5}
+            max={1.5}
+            step={0.1}
+            value={speech.settings.pitch}
+            onChange={(e) => speech.setPitch(Number(e.target.value))}
+            className="block w-full accent-[#ff91af]"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default SpeechControls;
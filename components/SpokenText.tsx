@@ -0,0 +1,24 @@
+import React from 'react';
+import { TextRange } from '../services/speechSettings';
+
+interface SpokenTextProps {
+  text: string;
+  // The sentence being read aloud, if this text is the one being read
+  highlight: TextRange | null;
+  className?: string;
+}
+
+const SpokenText: React.FC<SpokenTextProps> = ({ text, highlight, className = 'whitespace-pre-wrap text-zinc-300' }) => {
+  if (!highlight || highlight.end > text.length) {
+    return <p className={className}>{text}</p>;
+  }
+  return (
+    <p className={className}>
+      {text.slice(0, highlight.start)}
+      <mark className="bg-[#ff91af]/30 text-white rounded px-0.5">{text.slice(highlight.start, highlight.end)}</mark>
+      {text.slice(highlight.end)}
+    </p>
+  );
+};
+
+export default SpokenText;
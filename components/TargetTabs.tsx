@@ -0,0 +1,85 @@
+import React from 'react';
+import { Candidate } from './VariantPicker';
+import SpokenText from './SpokenText';
+import { TextRange } from '../services/speechSettings';
+import { SparklesIcon, CopyIcon, CheckIcon, SpeakerWaveIcon, SpeakerXMarkIcon } from './icons';
+
+export interface TranslationTarget extends Candidate {
+  language: string;
+}
+
+interface TargetTabsProps {
+  targets: TranslationTarget[];
+  activeIndex: number;
+  isLoading: boolean;
+  // Id of what is being read aloud, and the sentence being read
+  speakingId: string | null;
+  highlight: TextRange | null;
+  copiedId: string | null;
+  onSelect: (index: number) => void;
+  onCopy: (text: string, id: string) => void;
+  onSpeak: (text: string, language: string, id: string) => void;
+}
+
+const TargetTabs: React.FC<TargetTabsProps> = ({ targets, activeIndex, isLoading, speakingId, highlight, copiedId, onSelect, onCopy, onSpeak }) => {
+  const active = targets[activeIndex] ?? targets[0];
+  const copyId = `target-${active.language}`;
+  const isSpeaking = speakingId === copyId;
+
+  return (
+    <div className="bg-zinc-800/50 p-6 rounded-xl shadow-lg border border-zinc-700">
+      <div className="flex flex-wrap gap-2 mb-4" role="tablist" aria-label="Output languages">
+        {targets.map((target, index) => (
+          <button
+            key={target.language}
+            type="button"
+            role="tab"
+            aria-selected={index === activeIndex}
+            onClick={() => onSelect(index)}
+            className={`flex items-center gap-1.5 px-4 py-1.5 rounded-full text-sm transition-colors duration-200 ${
+              index === activeIndex
+                ? 'bg-[#ff91af] text-zinc-900 font-semibold shadow-md'
+                : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'
+            }`}
+          >
+            {target.language}
+            {target.error && <span className="text-red-400" aria-label="failed">!</span>}
+          </button>
+        ))}
+        {isLoading && <SparklesIcon className="w-5 h-5 ml-auto text-[#ff91af] animate-pulse" />}
+      </div>
+      <div role="tabpanel" aria-label={active.language}>
+        {active.text && !isLoading && (
+          <div className="flex justify-end items-center gap-x-2 mb-3">
+            <button
+              onClick={() => onSpeak(active.text, active.language, copyId)}
+              className="p-2 bg-zinc-700 hover:bg-zinc-600 rounded-full transition-colors"
+              aria-label={isSpeaking ? "Stop speaking" : "Read aloud"}
+            >
+              {isSpeaking ? <SpeakerXMarkIcon className="w-5 h-5 text-red-400" /> : <SpeakerWaveIcon className="w-5 h-5" />}
+            </button>
+            <button
+              onClick={() => onCopy(active.text, copyId)}
+              className="flex items-center gap-x-1.5 px-3 py-1.5 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full transition-colors"
+              aria-label={`Copy ${active.language} result`}
+            >
+              {copiedId === copyId ? <><CheckIcon className="w-4 h-4 text-green-400" /> Copied!</> : <><CopyIcon className="w-4 h-4" /> Copy</>}
+            </button>
+          </div>
+        )}
+        <div className="min-h-[100px] bg-zinc-900/70 p-4 rounded-lg">
+          {active.error
+            ? <p className="text-sm text-red-400">{active.error}</p>
+            : <SpokenText text={active.text} highlight={isSpeaking ? highlight : null} />}
+        </div>
+        {active.backTranslation && !isLoading && (
+          <p className="mt-3 text-sm text-zinc-500">
+            <span className="font-semibold">Back-translation{active.sourceLanguage ? ` (${active.sourceLanguage})` : ''}:</span> {active.backTranslation}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TargetTabs;
@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react';
+import { ToneProfile, ToneExample } from '../types';
+import { createToneProfile, exportToneProfiles, parseToneProfiles } from '../services/toneProfiles';
+import { downloadFile } from '../utils/download';
+import { TrashIcon } from './icons';
+
+interface ToneManagerProps {
+  profiles: ToneProfile[];
+  onSave: (profile: ToneProfile) => void;
+  onDelete: (id: string) => void;
+  onImport: (profiles: ToneProfile[]) => void;
+  onClose: () => void;
+}
+
+interface Draft {
+  id?: string;
+  name: string;
+  guidance: string;
+  examples: ToneExample[];
+}
+
+const emptyDraft: Draft = { name: '', guidance: '', examples: [] };
+
+const fieldClassName = "w-full p-2 bg-zinc-900/70 border border-zinc-600 rounded-lg focus:ring-2 focus:ring-[#ff91af] focus:border-[#ff91af] text-sm";
+
+const ToneManager: React.FC<ToneManagerProps> = ({ profiles, onSave, onDelete, onImport, onClose }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const editProfile = (profile: ToneProfile) => {
+    setDraft({ id: profile.id, name: profile.name, guidance: profile.guidance, examples: profile.examples });
+    setMessage(null);
+  };
+
+  const updateExample = (index: number, changes: Partial<ToneExample>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      examples: prev.examples.map((example, i) => i === index ? { ...example, ...changes } : example),
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    const examples = draft.examples.filter(example => example.input.trim() && example.output.trim());
+    const profile = createToneProfile(draft.name, draft.guidance, examples);
+    onSave(draft.id ? { ...profile, id: draft.id } : profile);
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    downloadFile(exportToneProfiles(profiles), 'tone-profiles.json', 'application/json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseToneProfiles(await file.text());
+      onImport(imported);
+      setMessage(`Imported ${imported.length} tone profile${imported.length === 1 ? '' : 's'}.`);
+    } catch (e) {
+      setMessage(`Import failed: ${e instanceof Error ? e.message : 'invalid file'}`);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-800/50 p-6 rounded-xl shadow-lg border border-zinc-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-zinc-300">Tone Profiles</h2>
+        <div className="flex gap-2">
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full">Import</button>
+          <button type="button" onClick={handleExport} disabled={profiles.length === 0} className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full disabled:opacity-50">Export</button>
+          <button type="button" onClick={onClose} className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full">Done</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-zinc-400">{message}</p>}
+
+      {profiles.length === 0 && !draft && (
+        <p className="text-sm text-zinc-500">No custom tones yet. Create one to describe a style of your own.</p>
+      )}
+      <ul className="space-y-2">
+        {profiles.map(profile => (
+          <li key={profile.id} className="flex justify-between items-center gap-2 bg-zinc-900/50 p-3 rounded-lg">
+            <div className="min-w-0">
+              <p className="text-zinc-300 font-medium truncate">{profile.name}</p>
+              <p className="text-xs text-zinc-500 truncate">{profile.guidance || 'No guidance'} · {profile.examples.length} example{profile.examples.length === 1 ? '' : 's'}</p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button type="button" onClick={() => editProfile(profile)} className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full">Edit</button>
+              <button type="button" onClick={() => onDelete(profile.id)} className="p-1.5 bg-zinc-700 hover:bg-red-500 rounded-full" aria-label={`Delete ${profile.name}`}>
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {draft ? (
+        <div className="space-y-3 border-t border-zinc-700 pt-4">
+          <input
+            type="text"
+            placeholder="Name, e.g. Apologetic customer support"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={fieldClassName}
+          />
+          <textarea
+            placeholder="Style guidance, e.g. Acknowledge the problem first, take ownership, keep it under three sentences."
+            value={draft.guidance}
+            onChange={(e) => setDraft({ ...draft, guidance: e.target.value })}
+            className={`${fieldClassName} h-20 resize-none`}
+          />
+          {draft.examples.map((example, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-start">
+              <textarea placeholder="Example input" value={example.input} onChange={(e) => updateExample(index, { input: e.target.value })} className={`${fieldClassName} h-16 resize-none`} />
+              <textarea placeholder="Example output" value={example.output} onChange={(e) => updateExample(index, { output: e.target.value })} className={`${fieldClassName} h-16 resize-none`} />
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, examples: draft.examples.filter((_, i) => i !== index) })}
+                className="p-1.5 bg-zinc-700 hover:bg-red-500 rounded-full"
+                aria-label="Remove example"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <button type="button" onClick={() => setDraft({ ...draft, examples: [...draft.examples, { input: '', output: '' }] })} className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full">
+              Add Example
+            </button>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setDraft(null)} className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full">Cancel</button>
+              <button type="button" onClick={handleSave} disabled={!draft.name.trim()} className="px-3 py-1 text-sm bg-[#ff91af] text-zinc-900 font-semibold rounded-full disabled:opacity-50">Save</button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <button type="button" onClick={() => { setDraft(emptyDraft); setMessage(null); }} className="w-full px-3 py-2 text-sm border border-dashed border-zinc-600 hover:border-[#ff91af]/50 rounded-lg text-zinc-400">
+          + New Tone
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ToneManager;
@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import { UsageRecord } from '../types';
+import { CacheSettings } from '../services/translationCache';
+import { ModelPrice, UsageSettings, UsageTotals, dayKey, formatCost, groupUsage, spentToday, totalUsage } from '../services/usage';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+  onClear: () => void;
+  cacheSettings: CacheSettings;
+  cacheSize: number;
+  onCacheSettingsChange: (settings: CacheSettings) => void;
+  onClearCache: () => void;
+  onClose: () => void;
+}
+
+// Days shown in the per-day table
+const DAYS_SHOWN = 14;
+
+const fieldClassName = "w-full p-2 bg-zinc-900/70 border border-zinc-600 rounded-lg focus:ring-2 focus:ring-[#ff91af] focus:border-[#ff91af] text-sm";
+
+function formatTokens(count: number): string {
+  return count >= 10_000 ? `${(count / 1000).toFixed(1)}k` : String(Math.round(count));
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+const AveragesTable: React.FC<{ title: string; groups: { key: string; totals: UsageTotals }[] }> = ({ title, groups }) => (
+  <div>
+    <h3 className="text-sm font-semibold text-zinc-400 mb-2">{title}</h3>
+    <table className="w-full text-sm">
+      <thead className="text-xs text-zinc-500 text-left">
+        <tr><th className="font-normal">Name</th><th className="font-normal text-right">Calls</th><th className="font-normal text-right">Avg tokens</th><th className="font-normal text-right">Avg time</th><th className="font-normal text-right">Avg cost</th></tr>
+      </thead>
+      <tbody className="text-zinc-300">
+        {groups.map(({ key, totals }) => (
+          <tr key={key}>
+            <td className="truncate max-w-[8rem]">{key}</td>
+            <td className="text-right">{totals.requests}</td>
+            <td className="text-right">{formatTokens((totals.promptTokens + totals.responseTokens) / totals.requests)}</td>
+            <td className="text-right">{formatSeconds(totals.averageLatencyMs)}</td>
+            <td className="text-right">{formatCost(totals.cost / totals.requests)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ records, settings, onSettingsChange, onClear, cacheSettings, cacheSize, onCacheSettingsChange, onClearCache, onClose }) => {
+  const [confirmClear, setConfirmClear] = useState<boolean>(false);
+  const { prices, dailyBudget } = settings;
+
+  const spent = spentToday(records, prices);
+  const days = useMemo(() => groupUsage(records, record => dayKey(record.timestamp), prices)
+    .sort((a, b) => b.key.localeCompare(a.key))
+    .slice(0, DAYS_SHOWN), [records, prices]);
+  const byTone = useMemo(() => groupUsage(records, record => record.tone, prices), [records, prices]);
+  const byLanguage = useMemo(() => groupUsage(records, record => record.language, prices), [records, prices]);
+  const overall = useMemo(() => totalUsage(records, prices), [records, prices]);
+  // Every model seen in the log gets a row, priced or not
+  const models = [...new Set([...Object.keys(prices), ...records.map(record => record.model)])].sort();
+  const hasEstimates = records.some(record => record.estimated);
+
+  const updatePrice = (model: string, changes: Partial<ModelPrice>) => {
+    const current = prices[model] ?? { input: 0, output: 0 };
+    onSettingsChange({ ...settings, prices: { ...prices, [model]: { ...current, ...changes } } });
+  };
+
+  const handleClear = () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      setTimeout(() => setConfirmClear(false), 3000);
+    } else {
+      onClear();
+      setConfirmClear(false);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-800/50 p-6 rounded-xl shadow-lg border border-zinc-700 space-y-5">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-zinc-300">Usage</h2>
+        <button type="button" onClick={onClose} className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-full">Done</button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-baseline text-sm">
+          <span className="text-zinc-400">Today</span>
+          <span className="text-zinc-300">
+            {formatCost(spent)}{dailyBudget > 0 ? ` of ${formatCost(dailyBudget)}` : ''}
+          </span>
+        </div>
+        {dailyBudget > 0 && (
+          <div className="h-1.5 bg-zinc-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all ${spent >= dailyBudget ? 'bg-red-500' : spent >= dailyBudget * 0.8 ? 'bg-yellow-400' : 'bg-[#ff91af]'}`}
+              style={{ width: `${Math.min(100, (spent / dailyBudget) * 100)}%` }}
+            />
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-sm text-zinc-400">
+          Daily budget (USD)
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={dailyBudget || ''}
+            placeholder="none"
+            onChange={(e) => onSettingsChange({ ...settings, dailyBudget: Math.max(0, Number(e.target.value) || 0) })}
+            className={`${fieldClassName} w-28`}
+          />
+        </label>
+      </div>
+
+      {records.length === 0 ? (
+        <p className="text-sm text-zinc-500">No translations recorded yet.</p>
+      ) : (
+        <>
+          <p className="text-sm text-zinc-400">
+            {overall.requests} calls · {formatTokens(overall.promptTokens)} prompt / {formatTokens(overall.responseTokens)} response tokens · {formatCost(overall.cost)}
+            {' '}· first chunk after {formatSeconds(overall.averageFirstChunkMs)} on average
+          </p>
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-400 mb-2">Per day</h3>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-zinc-500 text-left">
+                <tr><th className="font-normal">Day</th><th className="font-normal text-right">Calls</th><th className="font-normal text-right">Prompt</th><th className="font-normal text-right">Response</th><th className="font-normal text-right">Cost</th></tr>
+              </thead>
+              <tbody className="text-zinc-300">
+                {days.map(({ key, totals }) => (
+                  <tr key={key}>
+                    <td>{key}</td>
+                    <td className="text-right">{totals.requests}</td>
+                    <td className="text-right">{formatTokens(totals.promptTokens)}</td>
+                    <td className="text-right">{formatTokens(totals.responseTokens)}</td>
+                    <td className="text-right">{formatCost(totals.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <AveragesTable title="By tone" groups={byTone} />
+            <AveragesTable title="By language" groups={byLanguage} />
+          </div>
+          {hasEstimates && (
+            <p className="text-xs text-zinc-500">Some token counts are estimated because the provider didn't report them.</p>
+          )}
+        </>
+      )}
+
+      <div className="border-t border-zinc-700 pt-4">
+        <h3 className="text-sm font-semibold text-zinc-400 mb-2">Prices (USD per million tokens)</h3>
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_6rem_6rem] gap-2 text-xs text-zinc-500">
+            <span>Model</span><span>Input</span><span>Output</span>
+          </div>
+          {models.map(model => (
+            <div key={model} className="grid grid-cols-[1fr_6rem_6rem] gap-2 items-center text-sm">
+              <span className="truncate text-zinc-300">{model}</span>
+              <input type="number" min={0} step={0.01} value={prices[model]?.input ?? 0} onChange={(e) => updatePrice(model, { input: Math.max(0, Number(e.target.value) || 0) })} className={fieldClassName} aria-label={`${model} input price`} />
+              <input type="number" min={0} step={0.01} value={prices[model]?.output ?? 0} onChange={(e) => updatePrice(model, { output: Math.max(0, Number(e.target.value) || 0) })} className={fieldClassName} aria-label={`${model} output price`} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t border-zinc-700 pt-4 space-y-2">
+        <h3 className="text-sm font-semibold text-zinc-400">Response cache</h3>
+        <p className="text-xs text-zinc-500">
+          Translating the same thought with the same settings again reuses the earlier result at no cost. Use Regenerate to get a fresh one.
+        </p>
+        <div className="grid grid-cols-2 gap-2 text-sm text-zinc-400">
+          <label className="space-y-1">
+            <span>Keep for (hours)</span>
+            <input
+              type="number"
+              min={0}
+              value={cacheSettings.ttlHours}
+              onChange={(e) => onCacheSettingsChange({ ...cacheSettings, ttlHours: Math.max(0, Number(e.target.value) || 0) })}
+              className={fieldClassName}
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Max entries</span>
+            <input
+              type="number"
+              min={0}
+              value={cacheSettings.maxEntries}
+              onChange={(e) => onCacheSettingsChange({ ...cacheSettings, maxEntries: Math.max(0, Math.round(Number(e.target.value)) || 0) })}
+              className={fieldClassName}
+            />
+          </label>
+        </div>
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-zinc-500">{`${cacheSize} cached ${cacheSize === 1 ? 'result' : 'results'}`}</span>
+          <button
+            type="button"
+            onClick={onClearCache}
+            disabled={cacheSize === 0}
+            className="px-3 py-1 text-sm rounded-full bg-zinc-700 text-zinc-400 hover:bg-zinc-600 disabled:opacity-50"
+          >
+            Clear cache
+          </button>
+        </div>
+      </div>
+
+      {records.length > 0 && (
+        <button
+          type="button"
+          onClick={handleClear}
+          className={`px-3 py-1 text-sm rounded-full transition-colors duration-300 ${confirmClear ? 'bg-yellow-500 text-black' : 'bg-zinc-700 text-zinc-400 hover:bg-red-500/80 hover:text-white'}`}
+        >
+          {confirmClear ? "Click to Confirm" : "Clear usage log"}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
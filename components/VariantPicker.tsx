@@ -0,0 +1,48 @@
+import React from 'react';
+import { UsageRecord } from '../types';
+import { SparklesIcon } from './icons';
+
+export interface Candidate {
+  text: string;
+  error?: string;
+  sourceLanguage?: string;
+  backTranslation?: string;
+  usage?: UsageRecord;
+}
+
+interface VariantPickerProps {
+  candidates: Candidate[];
+  isLoading: boolean;
+  onPick: (index: number) => void;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ candidates, isLoading, onPick }) => (
+  <div className="bg-zinc-800/50 p-6 rounded-xl shadow-lg border border-zinc-700">
+    <div className="flex justify-between items-center mb-3">
+      <h2 className="text-lg font-semibold text-zinc-300">Pick a Version</h2>
+      {isLoading && <SparklesIcon className="w-5 h-5 text-[#ff91af] animate-pulse" />}
+    </div>
+    <div className="space-y-3">
+      {candidates.map((candidate, index) => (
+        <div key={index} className="bg-zinc-900/70 p-4 rounded-lg border border-zinc-700">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-xs uppercase tracking-wide text-zinc-500">Variant {index + 1}</span>
+            <button
+              type="button"
+              onClick={() => onPick(index)}
+              disabled={isLoading || !candidate.text}
+              className="px-3 py-1 text-sm bg-zinc-700 hover:bg-[#ff91af] hover:text-zinc-900 rounded-full transition-colors disabled:opacity-50 disabled:hover:bg-zinc-700 disabled:hover:text-zinc-300"
+            >
+              Use this
+            </button>
+          </div>
+          {candidate.error
+            ? <p className="text-sm text-red-400">{candidate.error}</p>
+            : <p className="whitespace-pre-wrap text-zinc-300 min-h-[1.5rem]">{candidate.text}</p>}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default VariantPicker;
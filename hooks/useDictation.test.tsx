@@ -0,0 +1,83 @@
+import React, { useRef, useState } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { VoiceCommand } from '../services/dictation';
+import { createFakeRecognizer, FakeRecognizer, final, interim } from '../test/fakeRecognizer';
+import { useDictation } from './useDictation';
+
+const Harness: React.FC<{ recognizer: FakeRecognizer; initial?: string; onCommand?: (command: VoiceCommand) => void }> = ({ recognizer, initial = '', onCommand = () => {} }) => {
+  const [value, setValue] = useState(initial);
+  const target = useRef<HTMLTextAreaElement>(null);
+  const dictation = useDictation({ target, value, onChange: setValue, onCommand, onError: () => {}, recognizer });
+  return (
+    <>
+      <textarea aria-label="Text" ref={target} value={value} onChange={(e) => setValue(e.target.value)} />
+      <p role="status">{dictation.interim}</p>
+      <button onClick={() => dictation.isListening ? dictation.stop() : dictation.start('en-GB')}>
+        {dictation.isListening ? 'Stop' : 'Start'}
+      </button>
+    </>
+  );
+};
+
+const textBox = () => screen.getByLabelText('Text') as HTMLTextAreaElement;
+
+describe('useDictation', () => {
+  it('shows interim words separately and adds each final result once', async () => {
+    const recognizer = createFakeRecognizer();
+    render(<Harness recognizer={recognizer} />);
+    await userEvent.click(screen.getByRole('button', { name: 'Start' }));
+    expect(recognizer.lang).toBe('en-GB');
+
+    act(() => recognizer.emit(interim('hel')));
+    act(() => recognizer.emit(interim('hello wor')));
+    expect(screen.getByRole('status')).toHaveTextContent('hello wor');
+    expect(textBox()).toHaveValue('');
+
+    act(() => recognizer.emit(final('hello world'), interim(' how')));
+    act(() => recognizer.emit(final('hello world'), final(' how are you')));
+
+    expect(textBox()).toHaveValue('hello world how are you');
+    expect(screen.getByRole('status')).toBeEmptyDOMElement();
+  });
+
+  it('inserts at the cursor and leaves the cursor after the new words', async () => {
+    const recognizer = createFakeRecognizer();
+    render(<Harness recognizer={recognizer} initial="one three" />);
+    await userEvent.click(screen.getByRole('button', { name: 'Start' }));
+
+    textBox().setSelectionRange(3, 3);
+    act(() => recognizer.emit(final('two')));
+
+    expect(textBox()).toHaveValue('one two three');
+    expect(textBox().selectionStart).toBe(7);
+  });
+
+  it('runs commands once the words before them are in the text', async () => {
+    const recognizer = createFakeRecognizer();
+    const seen: string[] = [];
+    const onCommand = vi.fn(() => { seen.push(textBox().value); });
+    render(<Harness recognizer={recognizer} onCommand={onCommand} />);
+    await userEvent.click(screen.getByRole('button', { name: 'Start' }));
+
+    act(() => recognizer.emit(final('see you soon'), final('translate now')));
+
+    expect(onCommand).toHaveBeenCalledExactlyOnceWith({ type: 'translate' });
+    expect(seen).toEqual(['see you soon']);
+  });
+
+  it('starts counting results afresh in a new session', async () => {
+    const recognizer = createFakeRecognizer();
+    render(<Harness recognizer={recognizer} />);
+    const user = userEvent.setup();
+
+    await user.click(screen.getByRole('button', { name: 'Start' }));
+    act(() => recognizer.emit(final('first')));
+    await user.click(screen.getByRole('button', { name: 'Stop' }));
+    await user.click(screen.getByRole('button', { name: 'Start' }));
+    act(() => recognizer.emit(final('second')));
+
+    expect(textBox()).toHaveValue('first second');
+  });
+});
@@ -0,0 +1,119 @@
+import { RefObject, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { DictationState, SpeechRecognizer, VoiceCommand, applySegment, createWebSpeechRecognizer } from '../services/dictation';
+
+interface DictationOptions {
+  // The text box dictated into; words go in at its cursor, replacing any selection
+  target: RefObject<HTMLTextAreaElement | null>;
+  value: string;
+  onChange: (value: string) => void;
+  onCommand: (command: VoiceCommand) => void;
+  onError: (message: string) => void;
+  // Defaults to the browser's speech recognition
+  recognizer?: SpeechRecognizer | null;
+}
+
+export interface DictationControls {
+  isSupported: boolean;
+  isListening: boolean;
+  // Words heard but not yet final; they aren't in the text until they are
+  interim: string;
+  // `lang` is a BCP 47 code such as 'en-US'
+  start: (lang: string) => void;
+  stop: () => void;
+}
+
+export function useDictation(options: DictationOptions): DictationControls {
+  const [recognizer] = useState(() => options.recognizer !== undefined ? options.recognizer : createWebSpeechRecognizer());
+  const [isListening, setIsListening] = useState<boolean>(false);
+  const [interim, setInterim] = useState<string>('');
+  // Commands wait until the text they follow has rendered, so they act on the new value
+  const [commands, setCommands] = useState<VoiceCommand[]>([]);
+
+  // The handlers are bound once; the callbacks they call are always the latest ones
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const valueRef = useRef(options.value);
+  valueRef.current = options.value;
+  // Final results of the current session that are already in the text
+  const committedRef = useRef<number>(0);
+  const cursorRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!recognizer) return;
+    recognizer.onresult = (results) => {
+      const { target, onChange } = optionsRef.current;
+      const value = valueRef.current;
+      let state: DictationState = {
+        value,
+        start: target.current?.selectionStart ?? value.length,
+        end: target.current?.selectionEnd ?? value.length,
+      };
+      const queued: VoiceCommand[] = [];
+      while (committedRef.current < results.length && results[committedRef.current].isFinal) {
+        const applied = applySegment(state, results[committedRef.current].transcript);
+        state = applied.state;
+        queued.push(...applied.commands);
+        committedRef.current++;
+      }
+      setInterim(results.slice(committedRef.current).map(result => result.transcript).join('').trim());
+
+      if (state.value !== value) {
+        // Read by the next result before React has re-rendered with the new value
+        valueRef.current = state.value;
+        cursorRef.current = state.start;
+        onChange(state.value);
+      }
+      if (queued.length > 0) setCommands(prev => [...prev, ...queued]);
+    };
+    recognizer.onerror = (error) => {
+      console.error("Speech recognition error", error);
+      optionsRef.current.onError(`Speech recognition error: ${error}`);
+      setIsListening(false);
+      setInterim('');
+    };
+    recognizer.onend = () => {
+      setIsListening(false);
+      setInterim('');
+    };
+    return () => {
+      recognizer.onresult = null;
+      recognizer.onerror = null;
+      recognizer.onend = null;
+    };
+  }, [recognizer]);
+
+  // Setting the value moves the browser's cursor to the end; put it back after the inserted words
+  useLayoutEffect(() => {
+    const cursor = cursorRef.current;
+    const element = options.target.current;
+    if (cursor === null || !element) return;
+    cursorRef.current = null;
+    element.setSelectionRange(cursor, cursor);
+  });
+
+  useEffect(() => {
+    if (commands.length === 0) return;
+    setCommands([]);
+    commands.forEach(command => optionsRef.current.onCommand(command));
+  }, [commands]);
+
+  const start = (lang: string) => {
+    if (!recognizer) {
+      optionsRef.current.onError("Speech recognition is not supported in your browser.");
+      return;
+    }
+    committedRef.current = 0;
+    setInterim('');
+    recognizer.start(lang);
+    setIsListening(true);
+  };
+
+  const stop = () => {
+    if (!recognizer || !isListening) return;
+    recognizer.stop();
+    setIsListening(false);
+    setInterim('');
+  };
+
+  return { isSupported: !!recognizer, isListening, interim, start, stop };
+}
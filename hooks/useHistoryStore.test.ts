@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StrictMode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { getAllHistory, putHistoryEntry } from '../services/historyStore';
+import { HistoryEntry } from '../types';
+import { useHistoryStore } from './useHistoryStore';
+
+// IndexedDB isn't available in jsdom
+vi.mock('../services/historyStore', () => ({
+  getAllHistory: vi.fn(() => Promise.resolve([])),
+  putHistoryEntry: vi.fn(() => Promise.resolve()),
+  putHistoryEntries: vi.fn(() => Promise.resolve()),
+  deleteHistoryEntry: vi.fn(() => Promise.resolve()),
+  clearHistory: vi.fn(() => Promise.resolve()),
+}));
+
+const stored: HistoryEntry = {
+  id: '2026-01-01T00:00:00.000Z',
+  input: 'rough idea',
+  output: 'A rough idea.',
+  tone: 'Friendly',
+  outputLanguage: 'English',
+  timestamp: Date.parse('2026-01-01T00:00:00.000Z'),
+};
+
+async function renderStore() {
+  vi.mocked(getAllHistory).mockResolvedValue([stored]);
+  const hook = renderHook(() => useHistoryStore(), { wrapper: StrictMode });
+  await waitFor(() => expect(hook.result.current.entries).toHaveLength(1));
+  return hook;
+}
+
+describe('useHistoryStore', () => {
+  it("doesn't bring back an entry deleted before a late update", async () => {
+    const { result } = await renderStore();
+    // An update captured before the delete, as a refinement finishing afterwards would be
+    const { update } = result.current;
+
+    act(() => result.current.remove(stored.id));
+    act(() => update(stored.id, { output: 'A refined idea.' }));
+
+    expect(result.current.entries).toEqual([]);
+    expect(putHistoryEntry).not.toHaveBeenCalled();
+  });
+
+  it('keeps changes made while an update was pending', async () => {
+    const { result } = await renderStore();
+    const { update } = result.current;
+
+    act(() => result.current.update(stored.id, { starred: true }));
+    act(() => update(stored.id, { output: 'A refined idea.' }));
+
+    expect(result.current.entries[0]).toMatchObject({ starred: true, output: 'A refined idea.' });
+    expect(putHistoryEntry).toHaveBeenLastCalledWith(expect.objectContaining({ starred: true, output: 'A refined idea.' }));
+  });
+
+  it('writes an updated entry once', async () => {
+    const { result } = await renderStore();
+
+    act(() => result.current.update(stored.id, { starred: true }));
+
+    expect(putHistoryEntry).toHaveBeenCalledTimes(1);
+  });
+});
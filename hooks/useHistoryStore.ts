@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from 'react';
+import { HistoryEntry } from '../types';
+import { getAllHistory, putHistoryEntry, putHistoryEntries, deleteHistoryEntry, clearHistory } from '../services/historyStore';
+import { DuplicateMode, ImportSummary, ParsedImport, mergeImportedHistory } from '../services/historyTransfer';
+
+export interface HistoryStore {
+  // Newest first
+  entries: HistoryEntry[];
+  add: (entry: HistoryEntry) => void;
+  addMany: (entries: HistoryEntry[]) => void;
+  update: (id: string, changes: Partial<HistoryEntry>) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+  importEntries: (parsed: ParsedImport, mode: DuplicateMode) => ImportSummary;
+}
+
+// History kept in React state and written through to IndexedDB entry by entry.
+// Storage failures are logged; the on-screen list stays usable either way.
+export function useHistoryStore(): HistoryStore {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  // The committed list, for callbacks that run after an await and would otherwise see a stale render
+  const entriesRef = useRef<HistoryEntry[]>(entries);
+
+  useEffect(() => {
+    entriesRef.current = entries;
+  }, [entries]);
+
+  // Load history from IndexedDB on mount (migrating any localStorage history on first run)
+  useEffect(() => {
+    getAllHistory()
+      .then(stored => setEntries(prev => [...prev, ...stored.filter(e => !prev.some(p => p.id === e.id))]))
+      .catch(e => console.error("Failed to load history from IndexedDB", e));
+  }, []);
+
+  const add = (entry: HistoryEntry) => {
+    setEntries(prev => [entry, ...prev]);
+    putHistoryEntry(entry).catch(e => console.error("Failed to save history entry", e));
+  };
+
+  const addMany = (added: HistoryEntry[]) => {
+    setEntries(prev => [...added, ...prev]);
+    putHistoryEntries(added).catch(e => console.error("Failed to save history entries", e));
+  };
+
+  // Built from the latest list, so an update that lands after an await (e.g. a refinement)
+  // neither restores a deleted entry nor reverts changes made in the meantime
+  const update = (id: string, changes: Partial<HistoryEntry>) => {
+    const existing = entriesRef.current.find(entry => entry.id === id);
+    if (!existing) return;
+    const updated = { ...existing, ...changes };
+    setEntries(prev => prev.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+    putHistoryEntry(updated).catch(e => console.error("Failed to save history entry", e));
+  };
+
+  const remove = (id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    deleteHistoryEntry(id).catch(e => console.error("Failed to delete history entry", e));
+  };
+
+  const clear = () => {
+    setEntries([]);
+    clearHistory().catch(e => console.error("Failed to clear history", e));
+  };
+
+  const importEntries = (parsed: ParsedImport, mode: DuplicateMode) => {
+    const { changed, summary } = mergeImportedHistory(entries, parsed, mode);
+    if (changed.length > 0) {
+      const changedIds = new Set(changed.map(entry => entry.id));
+      setEntries(prev => [...changed, ...prev.filter(entry => !changedIds.has(entry.id))]);
+      putHistoryEntries(changed).catch(e => console.error("Failed to save imported history", e));
+    }
+    return summary;
+  };
+
+  return { entries, add, addMany, update, remove, clear, importEntries };
+}
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { translateToLanguages } from '../services/geminiService';
+import { TranslationError, errorGuidance } from '../services/errors';
+import { statusGuidance } from '../services/structuredOutput';
+import { loadOfflineQueue, TranslationRequest } from '../services/offlineQueue';
+import { defaultToneProfile } from '../services/toneProfiles';
+import { builtInPromptPreset } from '../services/promptPresets';
+import { HistoryStore } from './useHistoryStore';
+import { useOfflineQueue } from './useOfflineQueue';
+
+vi.mock('../services/geminiService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../services/geminiService')>(),
+  translateToLanguages: vi.fn(),
+}));
+
+const request: TranslationRequest = {
+  input: 'on the train, running late',
+  tone: defaultToneProfile,
+  languages: ['English', 'German'],
+  glossary: [],
+  structured: true,
+  prompt: builtInPromptPreset,
+};
+
+function fakeHistory(): HistoryStore {
+  return {
+    entries: [],
+    add: vi.fn(),
+    addMany: vi.fn(),
+    update: vi.fn(),
+    remove: vi.fn(),
+    clear: vi.fn(),
+    importEntries: vi.fn(),
+  };
+}
+
+function setOnline(online: boolean) {
+  vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+  window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+}
+
+describe('useOfflineQueue', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps requests made offline across reloads and sends them once back online', async () => {
+    setOnline(false);
+    const first = renderHook(() => useOfflineQueue(fakeHistory()));
+    act(() => first.result.current.enqueue(request));
+    first.unmount();
+
+    const history = fakeHistory();
+    const { result } = renderHook(() => useOfflineQueue(history));
+    expect(result.current.items).toMatchObject([{ input: request.input, languages: ['English', 'German'] }]);
+    expect(translateToLanguages).not.toHaveBeenCalled();
+
+    vi.mocked(translateToLanguages).mockResolvedValue([
+      { status: 'fulfilled', value: { text: "I'm running late.", status: 'ok' } },
+      { status: 'fulfilled', value: { text: 'Ich verspäte mich.', status: 'ok' } },
+    ]);
+    act(() => setOnline(true));
+
+    await waitFor(() => expect(result.current.items).toEqual([]));
+    const [entries] = vi.mocked(history.addMany).mock.calls[0];
+    expect(entries).toMatchObject([
+      { output: "I'm running late.", outputLanguage: 'English', queuedAt: expect.any(Number) },
+      { output: 'Ich verspäte mich.', outputLanguage: 'German', queuedAt: expect.any(Number) },
+    ]);
+    expect(entries[0].groupId).toBe(entries[1].groupId);
+    expect(loadOfflineQueue()).toEqual([]);
+  });
+
+  it('waits for the connection again after a network error', async () => {
+    vi.mocked(translateToLanguages).mockResolvedValue([
+      { status: 'rejected', reason: new TranslationError('network', 'Failed to fetch') },
+    ]);
+    const history = fakeHistory();
+    const { result } = renderHook(() => useOfflineQueue(history));
+    act(() => result.current.enqueue({ ...request, languages: ['English'] }));
+
+    await waitFor(() => expect(result.current.sendingId).toBeNull());
+    expect(translateToLanguages).toHaveBeenCalledTimes(1);
+    expect(result.current.items).toMatchObject([{ input: request.input }]);
+    expect(result.current.items[0].error).toBeUndefined();
+
+    vi.mocked(translateToLanguages).mockResolvedValue([{ status: 'fulfilled', value: { text: "I'm running late." } }]);
+    act(() => setOnline(true));
+
+    await waitFor(() => expect(result.current.items).toEqual([]));
+    expect(history.addMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks requests that fail for other reasons until they are retried', async () => {
+    vi.mocked(translateToLanguages).mockResolvedValueOnce([
+      { status: 'rejected', reason: new TranslationError('quota', 'Too many requests', 429) },
+    ]);
+    const history = fakeHistory();
+    const { result } = renderHook(() => useOfflineQueue(history));
+    act(() => result.current.enqueue({ ...request, languages: ['English'] }));
+
+    await waitFor(() => expect(result.current.items[0].error).toBe(errorGuidance.quota.message));
+
+    vi.mocked(translateToLanguages).mockResolvedValueOnce([
+      { status: 'fulfilled', value: { text: '', status: 'needs_clarification', questions: ['Late for what?'] } },
+    ]);
+    act(() => result.current.retry(result.current.items[0].id));
+
+    await waitFor(() => expect(result.current.items[0].error).toBe(`${statusGuidance.needs_clarification} Late for what?`));
+    expect(history.addMany).not.toHaveBeenCalled();
+
+    act(() => result.current.remove(result.current.items[0].id));
+    expect(result.current.items).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from 'react';
+import { createQueuedTranslation, loadOfflineQueue, QueuedTranslation, saveOfflineQueue, sendQueuedTranslation, TranslationRequest } from '../services/offlineQueue';
+import { errorGuidance, toTranslationError } from '../services/errors';
+import { HistoryStore } from './useHistoryStore';
+
+// The browser can report being online while requests still fail (a weak signal on a train);
+// after a network error the queue waits this long before trying again
+export const QUEUE_RETRY_MS = 30_000;
+
+export interface OfflineQueue {
+  isOnline: boolean;
+  // Oldest first; sent requests leave the queue and appear in history
+  items: QueuedTranslation[];
+  // The request being sent right now
+  sendingId: string | null;
+  enqueue: (request: TranslationRequest) => void;
+  // Puts a failed request back in line
+  retry: (id: string) => void;
+  remove: (id: string) => void;
+}
+
+// Translation requests made while offline, kept across reloads and sent one at a time
+// once the connection returns. Results go straight into history.
+export function useOfflineQueue(history: HistoryStore): OfflineQueue {
+  const [isOnline, setIsOnline] = useState<boolean>(() => navigator.onLine);
+  const [items, setItems] = useState<QueuedTranslation[]>(loadOfflineQueue);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  // Set after a network error, so a connection that is up but unusable isn't retried in a loop
+  const [isStalled, setIsStalled] = useState<boolean>(false);
+  // Guards against sending twice when the effect re-runs before the state update lands
+  const sendingRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    saveOfflineQueue(items);
+  }, [items]);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      setIsStalled(false);
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isStalled) return;
+    const timer = setTimeout(() => setIsStalled(false), QUEUE_RETRY_MS);
+    return () => clearTimeout(timer);
+  }, [isStalled]);
+
+  useEffect(() => {
+    const next = items.find(item => !item.error);
+    if (!isOnline || isStalled || sendingRef.current || !next) return;
+
+    sendingRef.current = next.id;
+    setSendingId(next.id);
+    sendQueuedTranslation(next)
+      .then(outcome => {
+        if ('entries' in outcome) {
+          history.addMany(outcome.entries);
+          setItems(prev => prev.filter(item => item.id !== next.id));
+        } else {
+          setItems(prev => prev.map(item => item.id === next.id ? { ...item, error: outcome.error } : item));
+        }
+      })
+      .catch((err: unknown) => {
+        const kind = toTranslationError(err).kind;
+        if (kind === 'network') {
+          setIsStalled(true);
+        } else {
+          setItems(prev => prev.map(item => item.id === next.id ? { ...item, error: errorGuidance[kind].message } : item));
+        }
+      })
+      .finally(() => {
+        sendingRef.current = null;
+        setSendingId(null);
+      });
+  }, [isOnline, isStalled, sendingId, items]);
+
+  const enqueue = (request: TranslationRequest) => {
+    setItems(prev => [...prev, createQueuedTranslation(request)]);
+  };
+
+  const retry = (id: string) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, error: undefined } : item));
+    setIsStalled(false);
+  };
+
+  const remove = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  return { isOnline, items, sendingId, enqueue, retry, remove };
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { parseShareFragment, SharedTranslation } from '../services/shareLink';
+
+export interface SharedTranslationState {
+  // The translation in the page's share link, once decoded
+  shared: SharedTranslation | null;
+  // Why the page's share link couldn't be opened
+  error: string | null;
+  // Leaves the share view and drops the link from the address bar
+  dismiss: () => void;
+}
+
+// Opens share links from the URL fragment, both on load and when one is pasted into an open tab.
+export function useSharedTranslation(): SharedTranslationState {
+  const [shared, setShared] = useState<SharedTranslation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const read = () => {
+      parseShareFragment(window.location.hash)
+        .then(result => {
+          if (cancelled || !result) return;
+          setShared(result);
+          setError(null);
+        })
+        .catch((e: unknown) => {
+          if (cancelled) return;
+          setShared(null);
+          setError(e instanceof Error ? e.message : String(e));
+        });
+    };
+    read();
+    window.addEventListener('hashchange', read);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('hashchange', read);
+    };
+  }, []);
+
+  const dismiss = () => {
+    setShared(null);
+    setError(null);
+    // replaceState doesn't fire hashchange, and a reload then opens the editor
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
+  return { shared, error, dismiss };
+}
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { fakeVoice, installFakeSpeechSynthesis } from '../test/fakeSpeechSynthesis';
+import { loadSpeechSettings } from '../services/speechSettings';
+import { useSpeechSynthesis } from './useSpeechSynthesis';
+
+const text = 'First sentence. Second one.';
+
+describe('useSpeechSynthesis', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads with the chosen voice, rate and pitch and highlights sentences as they are reached', () => {
+    const { spoken } = installFakeSpeechSynthesis([fakeVoice('es-mx', 'es-MX'), fakeVoice('es-es', 'es-ES')]);
+    const { result } = renderHook(() => useSpeechSynthesis(vi.fn()));
+
+    act(() => {
+      result.current.setRate(1.5);
+      result.current.setPitch(0.8);
+      result.current.setVoice('Spanish', 'es-mx');
+    });
+    act(() => result.current.speak(text, 'Spanish', 'current'));
+
+    const [utterance] = spoken;
+    expect(utterance).toMatchObject({ lang: 'es-ES', rate: 1.5, pitch: 0.8, voice: expect.objectContaining({ voiceURI: 'es-mx' }) });
+    expect(result.current.speakingId).toBe('current');
+
+    act(() => utterance.onstart?.());
+    expect(result.current.highlight).toEqual({ start: 0, end: 15 });
+    act(() => utterance.onboundary?.({ charIndex: 16 }));
+    expect(result.current.highlight).toEqual({ start: 16, end: 27 });
+
+    act(() => utterance.onend?.());
+    expect(result.current.speakingId).toBeNull();
+    expect(result.current.highlight).toBeNull();
+    expect(loadSpeechSettings()).toEqual({ rate: 1.5, pitch: 0.8, voices: { 'es-ES': 'es-mx' } });
+  });
+
+  it('pauses, resumes and stops when the same text is read again', () => {
+    const { synthesis } = installFakeSpeechSynthesis();
+    const { result } = renderHook(() => useSpeechSynthesis(vi.fn()));
+
+    act(() => result.current.speak(text, 'English', 'history-1'));
+    act(() => result.current.pause());
+    expect(synthesis.pause).toHaveBeenCalled();
+    expect(result.current.isPaused).toBe(true);
+    act(() => result.current.resume());
+    expect(synthesis.resume).toHaveBeenCalled();
+    expect(result.current.isPaused).toBe(false);
+
+    synthesis.cancel.mockClear();
+    act(() => result.current.speak(text, 'English', 'history-1'));
+    expect(synthesis.cancel).toHaveBeenCalledTimes(1);
+    expect(result.current.speakingId).toBeNull();
+  });
+
+  it('switches to other text without reporting the interruption as an error', () => {
+    const { spoken } = installFakeSpeechSynthesis();
+    const onError = vi.fn();
+    const { result } = renderHook(() => useSpeechSynthesis(onError));
+
+    act(() => result.current.speak(text, 'English', 'history-1'));
+    act(() => result.current.speak('Other text.', 'English', 'history-2'));
+    act(() => spoken[0].onerror?.({ error: 'interrupted' }));
+    act(() => spoken[0].onend?.());
+
+    expect(result.current.speakingId).toBe('history-2');
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from 'react';
+import { languageCode } from '../utils/languages';
+import { SpeechSettings, TextRange, chooseVoice, loadSpeechSettings, matchingVoices, saveSpeechSettings, sentenceAt, sentenceRanges } from '../services/speechSettings';
+
+export interface SpeechSynthesisControls {
+  // What is being read, as passed to `speak`; null when silent
+  speakingId: string | null;
+  isPaused: boolean;
+  // The sentence currently being read, as positions in its text
+  highlight: TextRange | null;
+  settings: SpeechSettings;
+  // Reads `text` aloud in a listed language. Called again with the same id, it stops instead.
+  speak: (text: string, language: string, id: string) => void;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+  // Voices that can read a listed language, best match first
+  voicesFor: (language: string) => SpeechSynthesisVoice[];
+  // Remembers a voice for the language; null goes back to the automatic choice
+  setVoice: (language: string, voiceURI: string | null) => void;
+  setRate: (rate: number) => void;
+  setPitch: (pitch: number) => void;
+}
+
+const isSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export function useSpeechSynthesis(onError: (message: string) => void): SpeechSynthesisControls {
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [highlight, setHighlight] = useState<TextRange | null>(null);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [settings, setSettings] = useState<SpeechSettings>(loadSpeechSettings);
+  // Events of a cancelled utterance can arrive after the next one has started
+  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+
+  // Load speech synthesis voices
+  useEffect(() => {
+    if (!isSupported()) return;
+    const synthesis = window.speechSynthesis;
+    const loadVoices = () => {
+        const availableVoices = synthesis.getVoices();
+        if (availableVoices.length > 0) {
+            setVoices(availableVoices);
+        }
+    };
+    // Voices often load asynchronously.
+    synthesis.onvoiceschanged = loadVoices;
+    loadVoices(); // Initial attempt.
+
+    return () => {
+        synthesis.onvoiceschanged = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    saveSpeechSettings(settings);
+  }, [settings]);
+
+  const finish = () => {
+    utteranceRef.current = null;
+    setSpeakingId(null);
+    setIsPaused(false);
+    setHighlight(null);
+  };
+
+  const stop = () => {
+    if (!speakingId) return;
+    window.speechSynthesis.cancel();
+    finish();
+  };
+
+  const speak = (text: string, language: string, id: string) => {
+    if (speakingId === id) {
+        stop();
+        return;
+    }
+
+    if (text && isSupported()) {
+      const utterance = new SpeechSynthesisUtterance(text);
+      const langCode = languageCode(language);
+      utterance.lang = langCode;
+      utterance.rate = settings.rate;
+      utterance.pitch = settings.pitch;
+      const voice = chooseVoice(voices, langCode, settings);
+      if (voice) {
+          utterance.voice = voice;
+      }
+
+      const sentences = sentenceRanges(text, langCode);
+      const isCurrent = () => utteranceRef.current === utterance;
+      utterance.onstart = () => {
+        if (isCurrent()) setHighlight(sentences[0] ?? null);
+      };
+      // Not every voice reports boundaries; those read without a moving highlight
+      utterance.onboundary = (event) => {
+        if (isCurrent()) setHighlight(sentenceAt(sentences, event.charIndex));
+      };
+      utterance.onend = () => {
+        if (isCurrent()) finish();
+      };
+      utterance.onerror = (e) => {
+        if (!isCurrent()) return;
+        // Cancelling to start another utterance or to stop isn't a failure
+        if (e.error !== 'interrupted' && e.error !== 'canceled') {
+          console.error("Speech synthesis error", e);
+          onError("Sorry, text-to-speech for this language is not available or failed to load.");
+        }
+        finish();
+      };
+
+      // Stop any previous speech before starting a new one
+      utteranceRef.current = utterance;
+      window.speechSynthesis.cancel();
+      window.speechSynthesis.speak(utterance);
+      setSpeakingId(id);
+      setIsPaused(false);
+      setHighlight(null);
+    } else {
+        onError("Text-to-speech is not supported in your browser.");
+    }
+  };
+
+  const pause = () => {
+    if (!speakingId || isPaused) return;
+    window.speechSynthesis.pause();
+    setIsPaused(true);
+  };
+
+  const resume = () => {
+    if (!speakingId || !isPaused) return;
+    window.speechSynthesis.resume();
+    setIsPaused(false);
+  };
+
+  const voicesFor = (language: string) => matchingVoices(voices, languageCode(language));
+
+  const setVoice = (language: string, voiceURI: string | null) => {
+    const langCode = languageCode(language);
+    setSettings(prev => {
+      const { [langCode]: _removed, ...others } = prev.voices;
+      return { ...prev, voices: voiceURI ? { ...others, [langCode]: voiceURI } : others };
+    });
+  };
+
+  return {
+    speakingId,
+    isPaused,
+    highlight,
+    settings,
+    speak,
+    pause,
+    resume,
+    stop,
+    voicesFor,
+    setVoice,
+    setRate: rate => setSettings(prev => ({ ...prev, rate })),
+    setPitch: pitch => setSettings(prev => ({ ...prev, pitch })),
+  };
+}
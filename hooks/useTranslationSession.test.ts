@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { refineTranslation, translateThought, translateToLanguages, translateVariants } from '../services/geminiService';
+import { TranslationError, errorGuidance } from '../services/errors';
+import { defaultToneProfile } from '../services/toneProfiles';
+import { builtInPromptPreset } from '../services/promptPresets';
+import { HistoryEntry } from '../types';
+import { AUTO_LANGUAGE } from '../utils/languages';
+import { HistoryStore } from './useHistoryStore';
+import { TranslationSettings, useTranslationSession } from './useTranslationSession';
+
+vi.mock('../services/geminiService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../services/geminiService')>(),
+  translateThought: vi.fn(),
+  translateVariants: vi.fn(),
+  translateToLanguages: vi.fn(),
+  refineTranslation: vi.fn(),
+}));
+
+const settings: TranslationSettings = {
+  tone: defaultToneProfile,
+  outputLanguages: ['English'],
+  inputLanguage: AUTO_LANGUAGE,
+  variantCount: 1,
+  glossary: [],
+  structured: false,
+  prompt: builtInPromptPreset,
+  live: false,
+};
+
+function fakeHistory(entries: HistoryEntry[] = []): HistoryStore {
+  return {
+    entries,
+    add: vi.fn(),
+    addMany: vi.fn(),
+    update: vi.fn(),
+    remove: vi.fn(),
+    clear: vi.fn(),
+    importEntries: vi.fn(),
+  };
+}
+
+type OfflineQueueOption = Parameters<typeof useTranslationSession>[0]['queue'];
+
+function renderSession(overrides: Partial<TranslationSettings> = {}, history = fakeHistory(), beforeRequest = () => true, queue?: OfflineQueueOption) {
+  const onCopy = vi.fn();
+  const onError = vi.fn();
+  const hook = renderHook(() => useTranslationSession({
+    settings: { ...settings, ...overrides },
+    history,
+    beforeRequest,
+    onCopy,
+    onError,
+    queue,
+  }));
+  act(() => hook.result.current.setInput('rough idea'));
+  return { ...hook, history, onCopy, onError };
+}
+
+describe('useTranslationSession', () => {
+  it('streams variants side by side and records the picked one with all alternatives', async () => {
+    vi.mocked(translateVariants).mockImplementation(async (_text, _tone, _language, _count, onChunk) => {
+      onChunk(0, 'First');
+      onChunk(1, 'Second');
+      return [
+        { status: 'fulfilled', value: { text: 'First.' } },
+        { status: 'fulfilled', value: { text: 'Second.' } },
+      ];
+    });
+    const { result, history, onCopy } = renderSession({ variantCount: 2 });
+
+    await act(() => result.current.submit());
+    expect(result.current.candidates.map(c => c.text)).toEqual(['First.', 'Second.']);
+    expect(history.add).not.toHaveBeenCalled();
+
+    act(() => result.current.pickVariant(1));
+    expect(result.current.output).toBe('Second.');
+    expect(result.current.candidates).toEqual([]);
+    expect(history.add).toHaveBeenCalledWith(expect.objectContaining({ output: 'Second.', variants: ['First.', 'Second.'] }));
+    expect(onCopy).toHaveBeenCalledWith('Second.');
+  });
+
+  it('keeps the languages that succeeded and shows why the others failed', async () => {
+    vi.mocked(translateToLanguages).mockResolvedValue([
+      { status: 'fulfilled', value: { text: 'Hola.' } },
+      { status: 'rejected', reason: new TranslationError('safety', 'Blocked') },
+    ]);
+    const { result, history, onError } = renderSession({ outputLanguages: ['Spanish', 'German'] });
+
+    await act(() => result.current.submit());
+
+    expect(result.current.targets).toEqual([
+      expect.objectContaining({ language: 'Spanish', text: 'Hola.' }),
+      expect.objectContaining({ language: 'German', error: errorGuidance.safety.message }),
+    ]);
+    expect(history.addMany).toHaveBeenCalledWith([expect.objectContaining({ outputLanguage: 'Spanish', output: 'Hola.' })]);
+    // One failed language isn't an error for the whole request
+    expect(onError).not.toHaveBeenCalledWith(expect.objectContaining({ message: expect.any(String) }));
+  });
+
+  it('sends nothing when the request is held back', async () => {
+    const { result } = renderSession({ variantCount: 2 }, fakeHistory(), () => false);
+
+    await act(() => result.current.submit());
+
+    expect(translateVariants).not.toHaveBeenCalled();
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('refines a loaded entry and updates it in history', async () => {
+    const entry: HistoryEntry = {
+      id: 'entry-1',
+      input: 'rough idea',
+      output: 'A rough idea.',
+      tone: defaultToneProfile.name,
+      toneProfile: defaultToneProfile,
+      outputLanguage: 'English',
+      timestamp: 0,
+    };
+    vi.mocked(refineTranslation).mockImplementation(async (_base, _turns, _instruction, onChunk) => {
+      onChunk('A short idea.');
+      return { text: 'A short idea.' };
+    });
+    const { result, history } = renderSession({}, fakeHistory([entry]));
+
+    act(() => result.current.load(entry));
+    let refined = false;
+    await act(async () => { refined = await result.current.refine('shorter'); });
+
+    expect(refined).toBe(true);
+    expect(result.current.output).toBe('A short idea.');
+    expect(result.current.refinementTurns).toEqual([expect.objectContaining({ instruction: 'shorter', output: 'A short idea.' })]);
+    expect(history.update).toHaveBeenCalledWith('entry-1', expect.objectContaining({ output: 'A short idea.', originalOutput: 'A rough idea.' }));
+  });
+
+  it('restores the previous version when a refinement fails', async () => {
+    const entry: HistoryEntry = {
+      id: 'entry-1',
+      input: 'rough idea',
+      output: 'A rough idea.',
+      tone: defaultToneProfile.name,
+      outputLanguage: 'English',
+      timestamp: 0,
+    };
+    vi.mocked(refineTranslation).mockRejectedValue(new TranslationError('network', 'Offline'));
+    const { result, history, onError } = renderSession({}, fakeHistory([entry]));
+
+    act(() => result.current.load(entry));
+    await act(() => result.current.refine('shorter'));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.output).toBe('A rough idea.');
+    expect(onError).toHaveBeenLastCalledWith(errorGuidance.network);
+    expect(history.update).not.toHaveBeenCalled();
+  });
+
+  it('queues the input while offline or when the connection drops mid-request', async () => {
+    const queue = { isOnline: false, enqueue: vi.fn() };
+    const beforeRequest = vi.fn(() => true);
+    const { result } = renderSession({ inputLanguage: 'German' }, fakeHistory(), beforeRequest, queue);
+
+    await act(() => result.current.submit());
+
+    expect(queue.enqueue).toHaveBeenCalledWith(expect.objectContaining({ input: 'rough idea', languages: ['English'], sourceLanguage: 'German' }));
+    expect(result.current.input).toBe('');
+    expect(translateThought).not.toHaveBeenCalled();
+    expect(beforeRequest).toHaveBeenCalledTimes(1);
+
+    // Held back by the budget, nothing is queued
+    beforeRequest.mockReturnValueOnce(false);
+    act(() => result.current.setInput('over budget'));
+    await act(() => result.current.submit());
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+    expect(result.current.input).toBe('over budget');
+
+    queue.isOnline = true;
+    vi.mocked(translateThought).mockRejectedValue(new TranslationError('network', 'Failed to fetch'));
+    act(() => result.current.setInput('another idea'));
+    await act(() => result.current.submit());
+
+    expect(queue.enqueue).toHaveBeenLastCalledWith(expect.objectContaining({ input: 'another idea' }));
+    expect(result.current.input).toBe('');
+  });
+});
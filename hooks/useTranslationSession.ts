@@ -0,0 +1,489 @@
+import { useEffect, useRef, useState } from 'react';
+import { translateThought, translateVariants, translateToLanguages, refineTranslation, TranslationBase, TranslationResult } from '../services/geminiService';
+import { isSuccessful, unsuccessfulMessage } from '../services/structuredOutput';
+import { errorGuidance, toTranslationError } from '../services/errors';
+import { resolveHistoryTone } from '../services/toneProfiles';
+import { GlossaryEntry, HistoryEntry, PromptPreset, RefinementTurn, ToneProfile } from '../types';
+import { Candidate } from '../components/VariantPicker';
+import { TranslationTarget } from '../components/TargetTabs';
+import { AUTO_LANGUAGE } from '../utils/languages';
+import { HistoryStore } from './useHistoryStore';
+import { OfflineQueue } from './useOfflineQueue';
+
+// Live mode translates after this long without typing, once the input has a few characters
+export const LIVE_DEBOUNCE_MS = 700;
+export const LIVE_MIN_LENGTH = 6;
+// A live result is saved to history once it has stayed on screen this long with the input unchanged
+export const LIVE_SETTLE_MS = 3000;
+
+export interface AppError {
+  message: string;
+  nextStep?: string;
+}
+
+export interface TranslationSettings {
+  tone: ToneProfile;
+  // The first language is the primary one; more than one translates into each of them
+  outputLanguages: string[];
+  // A language name, or AUTO_LANGUAGE to let the model detect it
+  inputLanguage: string;
+  variantCount: number;
+  glossary: GlossaryEntry[];
+  // Structured output with a status and back-translation, so clarification requests aren't saved as translations
+  structured: boolean;
+  prompt: PromptPreset;
+  // Translate after each pause in typing instead of on submit
+  live: boolean;
+}
+
+interface TranslationSessionOptions {
+  settings: TranslationSettings;
+  history: HistoryStore;
+  // Asked before every request; returning false holds it back (used for the daily budget)
+  beforeRequest: () => boolean;
+  // Called as a submitted translation starts, so dictation and read-aloud can stop
+  onSubmit?: () => void;
+  // Called when a request is held back in live mode, which would otherwise retry on every keystroke
+  onLiveBlocked?: () => void;
+  onCopy: (text: string) => void;
+  // Receives null whenever a new request clears the previous error
+  onError: (error: AppError | null) => void;
+  // Takes submitted translations while offline; without it they fail with a network error
+  queue?: Pick<OfflineQueue, 'isOnline' | 'enqueue'>;
+}
+
+// The input, the translation on screen and everything needed to stream, stop, pick, refine
+// and record it. Single results, variants and multi-language targets are mutually exclusive.
+export function useTranslationSession({ settings, history, beforeRequest, onSubmit, onLiveBlocked, onCopy, onError, queue }: TranslationSessionOptions) {
+  const { tone, outputLanguages, inputLanguage, variantCount, glossary, structured, prompt, live } = settings;
+  const outputLanguage = outputLanguages[0];
+
+  const [input, setInput] = useState<string>('');
+  const [output, setOutput] = useState<string>('');
+  // The input that produced the current output, for diffing after the textarea is edited
+  const [sourceInput, setSourceInput] = useState<string>('');
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [variantRequest, setVariantRequest] = useState<Omit<TranslationBase, 'output'> | null>(null);
+  const [targets, setTargets] = useState<TranslationTarget[]>([]);
+  const [activeTarget, setActiveTarget] = useState<number>(0);
+  // The committed translation that follow-up instructions refine, and the history entry it lives in
+  const [translationBase, setTranslationBase] = useState<TranslationBase | null>(null);
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
+  const [refinementTurns, setRefinementTurns] = useState<RefinementTurn[]>([]);
+  const [clarification, setClarification] = useState<TranslationResult | null>(null);
+  const [backTranslation, setBackTranslation] = useState<string | undefined>(undefined);
+  // Whether the output on screen was served from the response cache
+  const [isCached, setIsCached] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [wasStopped, setWasStopped] = useState<boolean>(false);
+  // The latest live result, shown but not yet in history
+  const [pendingLive, setPendingLive] = useState<{ base: TranslationBase; details: Pick<HistoryEntry, 'backTranslation' | 'usage'> } | null>(null);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Settings and input of the last live translation, so an unchanged request isn't sent twice
+  const liveRequestRef = useRef<string>('');
+  const skipNextLiveRef = useRef<boolean>(false);
+
+  const translateOptions = (signal: AbortSignal) => ({
+    signal,
+    glossary,
+    sourceLanguage: inputLanguage === AUTO_LANGUAGE ? undefined : inputLanguage,
+    structured,
+    systemRules: prompt.rules,
+  });
+
+  // Clears the previous result before a new request
+  const startRequest = () => {
+    setIsLoading(true);
+    onError(null);
+    setWasStopped(false);
+    setIsCached(false);
+    setOutput('');
+    setSourceInput(input);
+    setCandidates([]);
+    setTargets([]);
+    setTranslationBase(null);
+    setCurrentEntryId(null);
+    setRefinementTurns([]);
+    setClarification(null);
+    setBackTranslation(undefined);
+    setPendingLive(null);
+  };
+
+  // Copies a finished translation, records it in history and makes it the base for refinements
+  const commitResult = (base: TranslationBase, details: Pick<HistoryEntry, 'variants' | 'backTranslation' | 'usage'> = {}, copy = true) => {
+    if (copy) onCopy(base.output);
+
+    const newEntry: HistoryEntry = {
+      id: new Date().toISOString(),
+      input: base.input,
+      output: base.output,
+      tone: base.tone.name,
+      toneProfile: base.tone,
+      promptPreset: base.prompt,
+      outputLanguage: base.language,
+      sourceLanguage: base.sourceLanguage,
+      timestamp: Date.now(),
+      ...details,
+    };
+    history.add(newEntry);
+    setBackTranslation(details.backTranslation);
+    setTranslationBase(base);
+    setCurrentEntryId(newEntry.id);
+    setRefinementTurns([]);
+  };
+
+  const handleTranslationError = (err: unknown) => {
+    const translationError = toTranslationError(err);
+    if (translationError.kind === 'aborted') {
+      // Keep the partial output on screen
+      setWasStopped(true);
+    } else {
+      onError(errorGuidance[translationError.kind]);
+    }
+  };
+
+  // Hands the input to the offline queue and clears the text box for the next thought
+  const queueInput = () => {
+    queue!.enqueue({
+      input,
+      tone,
+      languages: outputLanguages,
+      sourceLanguage: inputLanguage === AUTO_LANGUAGE ? undefined : inputLanguage,
+      glossary,
+      structured,
+      prompt,
+    });
+    setInput('');
+  };
+
+  // A connection the browser still thinks is up can be gone all the same
+  const queueOrFail = (err: unknown) => {
+    if (queue && toTranslationError(err).kind === 'network') {
+      setOutput('');
+      setTargets([]);
+      setCandidates([]);
+      queueInput();
+    } else {
+      handleTranslationError(err);
+    }
+  };
+
+  // `refresh` regenerates instead of reusing a cached result
+  const submit = async (refresh = false) => {
+    if (!input.trim() || isLoading) return;
+    // Queued requests count against the daily budget like any other
+    if (!beforeRequest()) return;
+    if (queue && !queue.isOnline) {
+      onError(null);
+      onSubmit?.();
+      queueInput();
+      return;
+    }
+
+    startRequest();
+    setActiveTarget(0);
+    onSubmit?.();
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const request = { input, tone, language: outputLanguage, prompt };
+    const options = { ...translateOptions(controller.signal), cache: refresh ? 'refresh' as const : 'use' as const };
+
+    try {
+      if (outputLanguages.length > 1) {
+        setTargets(outputLanguages.map(language => ({ language, text: '' })));
+        const results = await translateToLanguages(input, tone, outputLanguages, (index, chunk) => {
+          setTargets(prev => prev.map((t, i) => i === index ? { ...t, text: t.text + chunk } : t));
+        }, options);
+
+        setTargets(prev => prev.map((t, i) => {
+          const result = results[i];
+          if (result.status === 'fulfilled') {
+            const { text, sourceLanguage, backTranslation } = result.value;
+            return isSuccessful(result.value)
+              ? { ...t, text, sourceLanguage, backTranslation }
+              : { ...t, text: '', error: unsuccessfulMessage(result.value) };
+          }
+          const kind = toTranslationError(result.reason).kind;
+          return kind === 'aborted' ? t : { ...t, error: errorGuidance[kind].message };
+        }));
+        // Every successful language is recorded, linked by a shared group id
+        const groupId = new Date().toISOString();
+        const entries = results.flatMap((result, i): HistoryEntry[] => result.status === 'fulfilled' && isSuccessful(result.value) ? [{
+          id: `${groupId}-${i}`,
+          input,
+          output: result.value.text,
+          tone: tone.name,
+          toneProfile: tone,
+          promptPreset: prompt,
+          outputLanguage: outputLanguages[i],
+          sourceLanguage: result.value.sourceLanguage,
+          backTranslation: result.value.backTranslation,
+          usage: result.value.usage && [result.value.usage],
+          timestamp: Date.now(),
+          groupId,
+        }] : []);
+        if (entries.length > 0) history.addMany(entries);
+        const firstFailure = results.find(r => r.status === 'rejected');
+        if (firstFailure && results.every(r => r.status === 'rejected')) {
+          queueOrFail(firstFailure.reason);
+        }
+        return;
+      }
+
+      if (variantCount > 1) {
+        setVariantRequest(request);
+        setCandidates(Array.from({ length: variantCount }, () => ({ text: '' })));
+        const results = await translateVariants(input, tone, outputLanguage, variantCount, (index, chunk) => {
+          setCandidates(prev => prev.map((c, i) => i === index ? { ...c, text: c.text + chunk } : c));
+        }, options);
+
+        setCandidates(prev => prev.map((c, i) => {
+          const result = results[i];
+          if (result.status === 'fulfilled') {
+            const { text, sourceLanguage, backTranslation, usage } = result.value;
+            return isSuccessful(result.value)
+              ? { text, sourceLanguage, backTranslation, usage }
+              : { text: '', error: unsuccessfulMessage(result.value) };
+          }
+          const kind = toTranslationError(result.reason).kind;
+          // A stopped candidate keeps its partial text
+          return kind === 'aborted' ? c : { ...c, error: errorGuidance[kind].message };
+        }));
+        // Only surface an error when every candidate failed
+        const firstFailure = results.find(r => r.status === 'rejected');
+        if (firstFailure && results.every(r => r.status === 'rejected')) {
+          queueOrFail(firstFailure.reason);
+        }
+        return;
+      }
+
+      const fullResult = await translateThought(input, tone, outputLanguage, (chunk) => {
+        setOutput(prev => prev + chunk);
+      }, options);
+
+      if (!isSuccessful(fullResult)) {
+        // Nothing to copy or save; the questions are shown instead of an output
+        setOutput('');
+        setClarification(fullResult);
+      } else if (fullResult.text) {
+        setOutput(fullResult.text);
+        setIsCached(!!fullResult.cached);
+        commitResult(
+          { ...request, output: fullResult.text, sourceLanguage: fullResult.sourceLanguage },
+          { backTranslation: fullResult.backTranslation, usage: fullResult.usage && [fullResult.usage] },
+        );
+      }
+    } catch (err) {
+      queueOrFail(err);
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  // Live mode always translates the primary language with a single version
+  const translateLive = async () => {
+    // Drafts typed offline aren't queued; submitting one is
+    if (queue && !queue.isOnline) return;
+    if (!beforeRequest()) {
+      onLiveBlocked?.();
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    // A newer keystroke replaces the controller; a superseded request must not touch the screen
+    const isCurrent = () => abortControllerRef.current === controller;
+
+    startRequest();
+    const request = { input, tone, language: outputLanguage, prompt };
+    try {
+      const result = await translateThought(input, tone, outputLanguage, (chunk) => {
+        if (isCurrent()) setOutput(prev => prev + chunk);
+      }, translateOptions(controller.signal));
+      if (!isCurrent()) return;
+
+      if (!isSuccessful(result)) {
+        setOutput('');
+        setClarification(result);
+      } else if (result.text) {
+        setOutput(result.text);
+        setIsCached(!!result.cached);
+        setBackTranslation(result.backTranslation);
+        setPendingLive({
+          base: { ...request, output: result.text, sourceLanguage: result.sourceLanguage },
+          details: { backTranslation: result.backTranslation, usage: result.usage && [result.usage] },
+        });
+      }
+    } catch (err) {
+      if (isCurrent()) handleTranslationError(err);
+    } finally {
+      if (isCurrent()) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Schedules a live translation after a pause in typing. Any change first cancels the
+  // request in flight, since its result would already be out of date.
+  useEffect(() => {
+    if (!live) return;
+    const text = input.trim();
+    const key = JSON.stringify([text, tone.id, tone.updatedAt, outputLanguage, inputLanguage, structured, prompt.id, prompt.version]);
+    // An entry loaded from history is already translated
+    if (skipNextLiveRef.current) {
+      skipNextLiveRef.current = false;
+      liveRequestRef.current = key;
+      return;
+    }
+    if (key === liveRequestRef.current) return;
+
+    const running = abortControllerRef.current;
+    if (running) {
+      abortControllerRef.current = null;
+      running.abort();
+      setIsLoading(false);
+    }
+    if (text.length < LIVE_MIN_LENGTH) return;
+
+    const timer = setTimeout(() => {
+      liveRequestRef.current = key;
+      translateLive();
+    }, LIVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input, tone, outputLanguage, inputLanguage, structured, prompt, live]);
+
+  // Intermediate live results never reach history; only one left alone for a while does
+  useEffect(() => {
+    if (!pendingLive || input !== pendingLive.base.input) return;
+    const timer = setTimeout(() => {
+      commitResult(pendingLive.base, pendingLive.details, false);
+      setPendingLive(null);
+    }, LIVE_SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [pendingLive, input]);
+
+  const pickVariant = (index: number) => {
+    const chosen = candidates[index];
+    if (!variantRequest || !chosen?.text) return;
+    setOutput(chosen.text);
+    setCandidates([]);
+    commitResult(
+      { ...variantRequest, output: chosen.text, sourceLanguage: chosen.sourceLanguage },
+      {
+        variants: candidates.filter(c => c.text && !c.error).map(c => c.text),
+        backTranslation: chosen.backTranslation,
+        // All candidates were paid for, not just the chosen one
+        usage: candidates.flatMap(c => c.usage ? [c.usage] : []),
+      },
+    );
+  };
+
+  // Resolves to true once the instruction has produced a new version
+  const refine = async (instruction: string): Promise<boolean> => {
+    instruction = instruction.trim();
+    if (!translationBase || !instruction || isLoading) return false;
+    if (!beforeRequest()) return false;
+
+    const previousOutput = output;
+    setIsLoading(true);
+    onError(null);
+    setWasStopped(false);
+    setOutput('');
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const { text: refined, usage } = await refineTranslation(translationBase, refinementTurns, instruction, (chunk) => {
+        setOutput(prev => prev + chunk);
+      }, { signal: controller.signal, glossary });
+
+      const turns = [...refinementTurns, { instruction, output: refined, timestamp: Date.now() }];
+      setRefinementTurns(turns);
+      // The entry's output follows the latest version; the thread keeps the rest
+      if (currentEntryId) {
+        const previousUsage = history.entries.find(entry => entry.id === currentEntryId)?.usage ?? [];
+        history.update(currentEntryId, {
+          output: refined,
+          originalOutput: translationBase.output,
+          refinements: turns,
+          usage: usage ? [...previousUsage, usage] : previousUsage,
+        });
+      }
+      onCopy(refined);
+      return true;
+    } catch (err) {
+      const translationError = toTranslationError(err);
+      if (translationError.kind !== 'aborted') {
+        // Fall back to the last good version rather than an empty card
+        setOutput(previousOutput);
+      }
+      handleTranslationError(translationError);
+      return false;
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const stop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Puts a history entry back on screen as the base for further refinements
+  const load = (entry: HistoryEntry) => {
+    setInput(entry.input);
+    setOutput(entry.output);
+    setSourceInput(entry.input);
+    setCandidates([]);
+    setTargets([]);
+    setCurrentEntryId(entry.id);
+    setRefinementTurns(entry.refinements ?? []);
+    setBackTranslation(entry.backTranslation);
+    setClarification(null);
+    setIsCached(false);
+    setPendingLive(null);
+    skipNextLiveRef.current = true;
+    setTranslationBase({
+      input: entry.input,
+      tone: resolveHistoryTone(entry),
+      language: entry.outputLanguage,
+      output: entry.originalOutput ?? entry.output,
+      sourceLanguage: entry.sourceLanguage,
+      // Refinements reuse the exact rules the entry was made with, even if the preset has changed since
+      prompt: entry.promptPreset,
+    });
+    setWasStopped(false);
+  };
+
+  return {
+    input,
+    setInput,
+    output,
+    sourceInput,
+    candidates,
+    targets,
+    activeTarget,
+    setActiveTarget,
+    translationBase,
+    refinementTurns,
+    clarification,
+    backTranslation,
+    isCached,
+    // For when the cache is cleared under the result on screen
+    clearCachedFlag: () => setIsCached(false),
+    isLoading,
+    wasStopped,
+    submit,
+    stop,
+    pickVariant,
+    refine,
+    load,
+  };
+}
+
+export type TranslationSession = ReturnType<typeof useTranslationSession>;
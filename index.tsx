@@ -14,3 +14,10 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Caches the app shell so the app opens offline and can be installed (see public/sw.js)
+if (process.env.SERVICE_WORKER && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(e => console.error("Failed to register service worker", e));
+  });
+}
@@ -0,0 +1,90 @@
+// Keeps the app shell available offline. Translation requests are never cached here;
+// while offline the app queues them itself (see services/offlineQueue.ts).
+
+// Bump to drop every cached file on the next visit
+const CACHE_NAME = 'thought-translator-v1';
+const SHELL_URL = '/';
+
+// Scripts, stylesheets and icons referenced by the page, including the Tailwind CDN
+function shellAssets(html) {
+  const urls = new Set([SHELL_URL, '/manifest.webmanifest', '/icon.svg']);
+  for (const match of html.matchAll(/<(?:script|link)\b[^>]*?\b(?:src|href)="([^"]+)"/g)) {
+    urls.add(new URL(match[1], self.location.origin).href);
+  }
+  return [...urls];
+}
+
+async function precache(cache, url) {
+  const sameOrigin = new URL(url, self.location.origin).origin === self.location.origin;
+  // Other origins give opaque responses, which cache.add refuses but which serve back fine
+  const request = new Request(url, { mode: sameOrigin ? 'same-origin' : 'no-cors' });
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response);
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    const page = await fetch(SHELL_URL, { cache: 'reload' });
+    const assets = shellAssets(await page.clone().text()).filter(url => url !== SHELL_URL);
+    await cache.put(SHELL_URL, page);
+    await Promise.all(assets.map(url => precache(cache, url).catch(e => console.error("Failed to cache", url, e))));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+async function fromNetworkOrShell(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.put(SHELL_URL, response.clone());
+    }
+    return response;
+  } catch {
+    // Every route is the same single page; share links live in the fragment, which isn't part of the request
+    return (await caches.match(SHELL_URL)) ?? Response.error();
+  }
+}
+
+// Serves the cached copy at once and refreshes it in the background
+async function fromCacheThenRefresh(event) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(event.request);
+  const refreshed = fetch(event.request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') {
+        return cache.put(event.request, response.clone()).then(() => response);
+      }
+      return response;
+    });
+  if (cached) {
+    event.waitUntil(refreshed.catch(() => undefined));
+    return cached;
+  }
+  return refreshed;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Model and proxy calls are POSTs; the proxy's health check must reflect the real state
+  if (request.method !== 'GET' || !url.protocol.startsWith('http') || (url.origin === self.location.origin && url.pathname.startsWith('/api/'))) {
+    return;
+  }
+  if (request.mode === 'navigate') {
+    event.respondWith(fromNetworkOrShell(request));
+    return;
+  }
+  event.respondWith(fromCacheThenRefresh(event));
+});
@@ -0,0 +1,221 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { TokenUsage, TranslationProvider } from '../services/providers/types';
+import { ProxyErrorEvent, ProxyRequestBody } from '../services/providers/proxyProvider';
+import { TranslationErrorKind, toTranslationError } from '../services/errors';
+import { RateLimiter } from './rateLimit';
+import { isRecord } from '../utils/typeGuards';
+
+export interface ProxyOptions {
+  provider: TranslationProvider;
+  // Models clients may request; empty accepts any model (used in test mode)
+  allowedModels: string[];
+  maxBodyBytes: number;
+  rateLimiter: RateLimiter;
+  // Sent as Access-Control-Allow-Origin when the app is served from another origin
+  allowedOrigin?: string;
+  // Identify clients by X-Forwarded-For; only safe behind a proxy that sets it
+  trustForwardedFor?: boolean;
+  log?: (entry: RequestLogEntry) => void;
+}
+
+// One line per request. The text being translated is never logged.
+export interface RequestLogEntry {
+  time: string;
+  client: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  model?: string;
+  requestBytes?: number;
+  chunks?: number;
+  usage?: TokenUsage;
+  error?: TranslationErrorKind | string;
+}
+
+class HttpError extends Error {
+  status: number;
+  headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+function clientId(req: IncomingMessage, trustForwardedFor?: boolean): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustForwardedFor && typeof forwarded === 'string' && forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+async function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+  const declared = Number(req.headers['content-length']);
+  if (declared > maxBytes) {
+    throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function isProxyMessage(value: unknown): value is ProxyRequestBody['messages'][number] {
+  return isRecord(value) && (value.role === 'user' || value.role === 'model') && typeof value.text === 'string';
+}
+
+function parseRequestBody(json: string): ProxyRequestBody {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+  if (!isRecord(data)
+    || !Array.isArray(data.messages) || data.messages.length === 0 || !data.messages.every(isProxyMessage)
+    || typeof data.systemInstruction !== 'string'
+    || typeof data.model !== 'string'
+    || typeof data.temperature !== 'number'
+    || typeof data.topP !== 'number'
+    || (data.responseFormat !== undefined && data.responseFormat !== 'text' && data.responseFormat !== 'json')) {
+    throw new HttpError(400, "Request body is not a valid translation request");
+  }
+  return {
+    systemInstruction: data.systemInstruction,
+    messages: data.messages.map(message => ({ role: message.role, text: message.text })),
+    model: data.model,
+    temperature: data.temperature,
+    topP: data.topP,
+    responseFormat: data.responseFormat as ProxyRequestBody['responseFormat'],
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendEvent(res: ServerResponse, name: string | null, data: unknown) {
+  res.write(`${name ? `event: ${name}\n` : ''}data: ${JSON.stringify(data)}\n\n`);
+}
+
+// Request listener for node:http. Routes:
+//   GET  /api/health     reports the upstream provider
+//   POST /api/translate  streams a translation as server-sent events
+export function createProxyHandler(options: ProxyOptions) {
+  const { provider, allowedModels, maxBodyBytes, rateLimiter, allowedOrigin, trustForwardedFor, log = () => {} } = options;
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const startedAt = Date.now();
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const entry: RequestLogEntry = {
+      time: new Date(startedAt).toISOString(),
+      client: clientId(req, trustForwardedFor),
+      method: req.method ?? 'GET',
+      path,
+      status: 200,
+      durationMs: 0,
+    };
+
+    if (allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+      res.setHeader('Vary', 'Origin');
+    }
+
+    try {
+      if (req.method === 'OPTIONS' && allowedOrigin) {
+        entry.status = 204;
+        res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, POST', 'Access-Control-Allow-Headers': 'Content-Type' });
+        res.end();
+        return;
+      }
+      if (path === '/api/health' && req.method === 'GET') {
+        sendJson(res, 200, { ok: true, provider: provider.id });
+        return;
+      }
+      if (path !== '/api/translate') {
+        throw new HttpError(404, "Not found");
+      }
+      if (req.method !== 'POST') {
+        throw new HttpError(405, "Use POST", { Allow: 'POST' });
+      }
+
+      const limit = rateLimiter.take(entry.client);
+      if (!limit.allowed) {
+        throw new HttpError(429, "Too many requests; try again shortly", { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) });
+      }
+
+      const raw = await readBody(req, maxBodyBytes);
+      entry.requestBytes = Buffer.byteLength(raw);
+      const body = parseRequestBody(raw);
+      entry.model = body.model;
+      if (allowedModels.length > 0 && !allowedModels.includes(body.model)) {
+        throw new HttpError(400, `Model "${body.model}" is not available; use one of: ${allowedModels.join(', ')}`);
+      }
+
+      await streamTranslation(body, res, entry, provider);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        entry.status = error.status;
+        entry.error = error.message;
+        if (!res.headersSent) sendJson(res, error.status, { error: error.message }, error.headers);
+        else res.end();
+        return;
+      }
+      console.error("Unexpected proxy error", error);
+      entry.status = 500;
+      entry.error = 'unknown';
+      if (!res.headersSent) sendJson(res, 500, { error: "Internal server error" });
+      else res.end();
+    } finally {
+      log({ ...entry, durationMs: Date.now() - startedAt });
+    }
+  };
+}
+
+async function streamTranslation(body: ProxyRequestBody, res: ServerResponse, entry: RequestLogEntry, provider: TranslationProvider) {
+  // The upstream call is cancelled as soon as the browser goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  entry.chunks = 0;
+
+  try {
+    const stream = provider.generateStream({
+      ...body,
+      signal: controller.signal,
+      onUsage: (usage) => { entry.usage = usage; },
+    });
+    for await (const text of stream) {
+      entry.chunks++;
+      sendEvent(res, null, { text });
+    }
+    if (entry.usage) sendEvent(res, 'usage', entry.usage);
+    sendEvent(res, 'done', {});
+  } catch (error) {
+    const translationError = toTranslationError(error);
+    entry.error = translationError.kind;
+    if (translationError.kind !== 'aborted') {
+      // Headers are already sent, so the failure travels as an event the client turns back into an error
+      sendEvent(res, 'error', { kind: translationError.kind, message: translationError.message } satisfies ProxyErrorEvent);
+    }
+  } finally {
+    res.end();
+  }
+}
@@ -0,0 +1,55 @@
+import { existsSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { createProvider } from '../services/providers';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { ProviderId, TranslationProvider } from '../services/providers/types';
+import { DEFAULT_MODELS } from '../services/geminiService';
+import { createProxyHandler } from './app';
+import { createRateLimiter } from './rateLimit';
+
+// The same .env.local the app uses; variables already set in the environment win
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const env = process.env;
+// Test mode answers with the mock model, so no key or network access is needed
+const isMock = process.argv.includes('--mock') || env.PROXY_MOCK === '1';
+
+function upstreamProvider(): { provider: TranslationProvider; models: string[] } {
+  if (isMock) {
+    return { provider: createMockProvider(), models: [] };
+  }
+  const id = (env.TRANSLATION_PROVIDER || 'gemini') as ProviderId;
+  if (id !== 'gemini' && id !== 'openai') {
+    throw new Error(`The proxy can forward to "gemini" or "openai", not "${id}". Use --mock for test mode.`);
+  }
+  const model = env.TRANSLATION_MODEL || DEFAULT_MODELS[id];
+  const provider = createProvider({
+    provider: id,
+    model,
+    temperature: 0.7,
+    topP: 0.95,
+    baseUrl: env.OPENAI_BASE_URL,
+    apiKey: id === 'openai' ? env.OPENAI_API_KEY : env.GEMINI_API_KEY,
+  });
+  const models = env.PROXY_MODELS ? env.PROXY_MODELS.split(',').map(name => name.trim()).filter(Boolean) : [model];
+  return { provider, models };
+}
+
+const { provider, models } = upstreamProvider();
+const port = Number(env.PORT) || 8787;
+
+const server = createServer(createProxyHandler({
+  provider,
+  allowedModels: models,
+  maxBodyBytes: Number(env.MAX_REQUEST_BYTES) || 64 * 1024,
+  rateLimiter: createRateLimiter({ limit: Number(env.RATE_LIMIT_PER_MINUTE) || 30, windowMs: 60_000 }),
+  allowedOrigin: env.PROXY_ALLOWED_ORIGIN,
+  trustForwardedFor: env.TRUST_PROXY === '1',
+  log: entry => console.log(JSON.stringify(entry)),
+}));
+
+server.listen(port, () => {
+  console.log(`Translation proxy listening on http://localhost:${port} (${isMock ? 'mock model' : `${provider.id}: ${models.join(', ')}`})`);
+});
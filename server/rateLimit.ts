@@ -0,0 +1,46 @@
+export interface RateLimitOptions {
+  // Requests allowed per client within one window
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // How long until the client's window resets; 0 when the request was allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take(client: string, now?: number): RateLimitResult;
+}
+
+// Fixed-window counter per client, kept in memory. Good enough for a single proxy instance;
+// several instances behind a load balancer would each count separately.
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions): RateLimiter {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const forgetExpired = (now: number) => {
+    for (const [client, window] of windows) {
+      if (now - window.startedAt >= windowMs) windows.delete(client);
+    }
+  };
+
+  return {
+    take(client, now = Date.now()) {
+      // Cleaning up on every call would be wasteful; once the map grows it pays for itself
+      if (windows.size > 1000) forgetExpired(now);
+
+      let window = windows.get(client);
+      if (!window || now - window.startedAt >= windowMs) {
+        window = { startedAt: now, count: 0 };
+        windows.set(client, window);
+      }
+      if (window.count >= limit) {
+        return { allowed: false, remaining: 0, retryAfterMs: window.startedAt + windowMs - now };
+      }
+      window.count++;
+      return { allowed: true, remaining: limit - window.count, retryAfterMs: 0 };
+    },
+  };
+}
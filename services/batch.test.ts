@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { parseBatchFile } from './batch';
+
+describe('parseBatchFile', () => {
+  it('skips CSV rows without text and keeps them in the output', () => {
+    const source = parseBatchFile('notes.csv', 'id,text\n1,hi there\n2,\n3,cya\n', 'line', '');
+
+    expect(source.items).toEqual(['hi there', 'cya']);
+    expect(source.render(['Hello there.', 'See you.']).trim().split(/\r?\n/)).toEqual([
+      'id,text,output',
+      '1,hi there,Hello there.',
+      '2,,',
+      '3,cya,See you.',
+    ]);
+  });
+});
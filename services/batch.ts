@@ -0,0 +1,124 @@
+import { parseCsv, formatCsv } from '../utils/csv';
+
+export type BatchFormat = 'txt' | 'csv' | 'md';
+export type BatchDelimiter = 'line' | 'blank-line' | 'custom';
+
+export interface BatchSource {
+  format: BatchFormat;
+  fileName: string;
+  items: string[];
+  // Rebuilds the source document with each item replaced by its output
+  render: (outputs: string[]) => string;
+}
+
+export const batchFileDetails: Record<BatchFormat, { extension: string; mimeType: string }> = {
+  txt: { extension: 'txt', mimeType: 'text/plain' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  md: { extension: 'md', mimeType: 'text/markdown' },
+};
+
+// Column names recognised as holding the text to translate in a CSV with a header row
+const CSV_TEXT_COLUMNS = ['input', 'text', 'thought', 'message', 'content'];
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+
+function delimiterPattern(delimiter: BatchDelimiter, custom: string): { split: string | RegExp; join: string } {
+  switch (delimiter) {
+    case 'line': return { split: /\r?\n/, join: '\n' };
+    case 'blank-line': return { split: /\r?\n\s*\r?\n/, join: '\n\n' };
+    case 'custom': return { split: custom || '\n', join: custom || '\n' };
+  }
+}
+
+export function parseBatchText(text: string, delimiter: BatchDelimiter, custom: string, fileName = 'batch'): BatchSource {
+  const { split, join } = delimiterPattern(delimiter, custom);
+  const items = text.split(split).map(item => item.trim()).filter(Boolean);
+  return {
+    format: 'txt',
+    fileName,
+    items,
+    render: outputs => outputs.join(join),
+  };
+}
+
+function parseBatchCsv(text: string, fileName: string): BatchSource {
+  const rows = parseCsv(text).filter(row => row.some(cell => cell.trim()));
+  const headerColumn = rows.length > 0
+    ? rows[0].findIndex(cell => CSV_TEXT_COLUMNS.includes(cell.trim().toLowerCase()))
+    : -1;
+  const hasHeader = headerColumn !== -1;
+  const column = hasHeader ? headerColumn : 0;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  // Rows with a blank text cell aren't translated; they keep an empty output cell
+  const itemRows = dataRows.filter(row => (row[column] ?? '').trim());
+
+  return {
+    format: 'csv',
+    fileName,
+    items: itemRows.map(row => row[column].trim()),
+    render: outputs => {
+      const outputByRow = new Map(itemRows.map((row, i) => [row, outputs[i] ?? '']));
+      return formatCsv([
+        ...(hasHeader ? [[...rows[0], 'output']] : []),
+        ...dataRows.map(row => [...row, outputByRow.get(row) ?? '']),
+      ]);
+    },
+  };
+}
+
+// Markdown lists become one item per list entry; other lines such as headings are kept as they are.
+// Without a list, paragraphs are used.
+function parseBatchMarkdown(text: string, fileName: string): BatchSource {
+  const listItems: { prefix: string; text: string }[] = [];
+  // Each output line is either kept verbatim or replaced by a list item
+  const layout: ({ line: string } | { item: number })[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(LIST_ITEM);
+    const previous = layout[layout.length - 1];
+    if (match) {
+      layout.push({ item: listItems.length });
+      listItems.push({ prefix: `${match[1]}${match[2]} `, text: match[3] });
+    } else if (line.trim() && /^\s+/.test(line) && previous && 'item' in previous) {
+      // Indented continuation of the previous item
+      listItems[previous.item].text += ` ${line.trim()}`;
+    } else {
+      layout.push({ line });
+    }
+  }
+
+  if (listItems.length === 0) {
+    return { ...parseBatchText(text, 'blank-line', '', fileName), format: 'md' };
+  }
+  return {
+    format: 'md',
+    fileName,
+    items: listItems.map(item => item.text.trim()),
+    render: outputs => layout.map(part => 'line' in part
+      ? part.line
+      : `${listItems[part.item].prefix}${(outputs[part.item] ?? '').replace(/\n+/g, ' ')}`
+    ).join('\n'),
+  };
+}
+
+export function parseBatchFile(fileName: string, content: string, delimiter: BatchDelimiter, custom: string): BatchSource {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  switch (extension) {
+    case 'csv': return parseBatchCsv(content, baseName);
+    case 'md':
+    case 'markdown': return parseBatchMarkdown(content, baseName);
+    case 'txt': return parseBatchText(content, delimiter, custom, baseName);
+    default: throw new Error("Please upload a .txt, .csv or .md file.");
+  }
+}
+
+// Runs `worker` over the items with at most `limit` in flight. Workers handle their own errors.
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { applySegment, insertText, parseVoiceCommand } from './dictation';
+
+const at = (value: string, start = value.length, end = start) => ({ value, start, end });
+
+describe('parseVoiceCommand', () => {
+  it('recognises commands spoken on their own, ignoring case and punctuation', () => {
+    expect(parseVoiceCommand('Translate now.')).toEqual({ type: 'translate' });
+    expect(parseVoiceCommand(' clear')).toBe('clear');
+    expect(parseVoiceCommand('Switch tone to Professional')).toEqual({ type: 'tone', name: 'professional' });
+    expect(parseVoiceCommand('change the tone to very formal')).toEqual({ type: 'tone', name: 'very formal' });
+  });
+
+  it('leaves commands inside a sentence as text', () => {
+    expect(parseVoiceCommand('make it clear')).toBeNull();
+    expect(parseVoiceCommand('please translate now')).toBeNull();
+  });
+});
+
+describe('insertText', () => {
+  it('adds the spaces between phrases', () => {
+    expect(insertText(at('Hello'), 'world')).toEqual(at('Hello world'));
+    expect(insertText(at('Hello'), ', world')).toEqual(at('Hello, world'));
+    expect(insertText(at(''), 'Hi')).toEqual(at('Hi'));
+  });
+
+  it('inserts at the cursor and replaces the selection', () => {
+    expect(insertText(at('one three', 3), 'two')).toEqual(at('one two three', 7));
+    expect(insertText(at('one 2 three', 4, 5), 'two')).toEqual(at('one two three', 7));
+  });
+});
+
+describe('applySegment', () => {
+  it('turns "new line" into a line break anywhere in the segment', () => {
+    expect(applySegment(at('Dear Sam,'), 'new line thanks for coming new line').state).toEqual(at('Dear Sam,\nthanks for coming\n'));
+  });
+
+  it('clears the text', () => {
+    expect(applySegment(at('draft', 2), 'Clear.')).toEqual({ state: at(''), commands: [] });
+  });
+
+  it('returns app commands without changing the text', () => {
+    expect(applySegment(at('draft'), 'translate now')).toEqual({ state: at('draft'), commands: [{ type: 'translate' }] });
+  });
+});
@@ -0,0 +1,118 @@
+// Web Speech API interfaces
+declare global {
+  interface Window {
+    SpeechRecognition: any;
+    webkitSpeechRecognition: any;
+    SpeechGrammarList: any;
+    webkitSpeechGrammarList: any;
+  }
+}
+
+export interface RecognitionResult {
+  transcript: string;
+  // Interim results may still change; final ones never do
+  isFinal: boolean;
+}
+
+// The part of a speech recognition engine dictation needs, so tests can drive it with a fake.
+export interface SpeechRecognizer {
+  // `lang` is a BCP 47 code such as 'en-US'
+  start: (lang: string) => void;
+  stop: () => void;
+  // Receives every result of the current session so far, in order; finals always come first
+  onresult: ((results: RecognitionResult[]) => void) | null;
+  onerror: ((error: string) => void) | null;
+  onend: (() => void) | null;
+}
+
+// Wraps the browser's continuous recognition; null where the browser has none
+export function createWebSpeechRecognizer(): SpeechRecognizer | null {
+  const Recognition = typeof window !== 'undefined' ? window.SpeechRecognition || window.webkitSpeechRecognition : undefined;
+  if (!Recognition) return null;
+
+  const recognition = new Recognition();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  const recognizer: SpeechRecognizer = {
+    start: (lang) => {
+      recognition.lang = lang;
+      recognition.start();
+    },
+    stop: () => recognition.stop(),
+    onresult: null,
+    onerror: null,
+    onend: null,
+  };
+  recognition.onresult = (event: any) => {
+    recognizer.onresult?.(Array.from(event.results, (result: any) => ({ transcript: result[0].transcript, isFinal: result.isFinal })));
+  };
+  recognition.onerror = (event: any) => recognizer.onerror?.(event.error);
+  recognition.onend = () => recognizer.onend?.();
+  return recognizer;
+}
+
+// Spoken commands the app acts on; editing commands are applied to the text directly
+export type VoiceCommand =
+  | { type: 'translate' }
+  | { type: 'tone'; name: string };
+
+// The dictated text and the selection new words replace
+export interface DictationState {
+  value: string;
+  start: number;
+  end: number;
+}
+
+const NEW_LINE = /\bnew ?line\b[.,!?]?/gi;
+const TONE_COMMAND = /^(?:switch|change|set) (?:the )?tone to (.+)$/;
+
+function normalizeCommand(segment: string): string {
+  return segment.toLowerCase().replace(/^[\s.,!?]+|[\s.,!?]+$/g, '').replace(/\s+/g, ' ');
+}
+
+// Commands other than "new line" only count when spoken on their own, after a pause,
+// so sentences like "make it clear" are dictated as text.
+export function parseVoiceCommand(segment: string): VoiceCommand | 'clear' | null {
+  const phrase = normalizeCommand(segment);
+  if (phrase === 'translate now' || phrase === 'translate') return { type: 'translate' };
+  if (phrase === 'clear' || phrase === 'clear all') return 'clear';
+  const tone = TONE_COMMAND.exec(phrase);
+  if (tone) return { type: 'tone', name: tone[1].trim() };
+  return null;
+}
+
+// Replaces the selection with `text`, adding the spaces recognizers leave out between phrases
+export function insertText(state: DictationState, text: string): DictationState {
+  const before = state.value.slice(0, state.start);
+  const after = state.value.slice(state.end);
+  const spaceBefore = before.length > 0 && !/\s$/.test(before) && !/^[\s.,!?;:]/.test(text);
+  const spaceAfter = after.length > 0 && !/^[\s.,!?;:]/.test(after) && !/\s$/.test(text);
+  const inserted = `${spaceBefore ? ' ' : ''}${text}`;
+  const cursor = before.length + inserted.length;
+  return { value: `${before}${inserted}${spaceAfter ? ' ' : ''}${after}`, start: cursor, end: cursor };
+}
+
+// Applies one final recognition result: inserts its text at the cursor, or carries out the
+// command it consists of. Commands for the app are returned rather than run.
+export function applySegment(state: DictationState, transcript: string): { state: DictationState; commands: VoiceCommand[] } {
+  const command = parseVoiceCommand(transcript);
+  if (command === 'clear') {
+    return { state: { value: '', start: 0, end: 0 }, commands: [] };
+  }
+  if (command) {
+    return { state, commands: [command] };
+  }
+
+  // "new line" may come mid-sentence; the words around it are inserted as usual
+  transcript.split(NEW_LINE).forEach((part, i) => {
+    if (i > 0) {
+      const before = state.value.slice(0, state.start).trimEnd();
+      const cursor = before.length + 1;
+      state = { value: `${before}\n${state.value.slice(state.end)}`, start: cursor, end: cursor };
+    }
+    const text = part.trim();
+    if (text) state = insertText(state, text);
+  });
+  return { state, commands: [] };
+}
@@ -0,0 +1,99 @@
+export type TranslationErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'empty' | 'malformed' | 'too-large' | 'server' | 'aborted' | 'unknown';
+
+export class TranslationError extends Error {
+  kind: TranslationErrorKind;
+  status?: number;
+  // How long the server asked us to wait before trying again (its Retry-After header)
+  retryAfterMs?: number;
+
+  constructor(kind: TranslationErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'TranslationError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  // Rate limits and server hiccups are worth another attempt; everything else is not
+  get retryable(): boolean {
+    return this.status === 429 || this.kind === 'server';
+  }
+}
+
+export const errorGuidance: Record<TranslationErrorKind, { message: string; nextStep: string }> = {
+  auth: {
+    message: "The translation service rejected the API key.",
+    nextStep: "Check that the key in .env.local is set and valid, then restart the app.",
+  },
+  quota: {
+    message: "The translation service is rate limiting requests or the quota is used up.",
+    nextStep: "Wait a minute and try again, or check the usage limits of your plan.",
+  },
+  safety: {
+    message: "The model refused to translate this text because of its safety filters.",
+    nextStep: "Rephrase the sensitive parts of your thought and try again.",
+  },
+  network: {
+    message: "Couldn't reach the translation service.",
+    nextStep: "Check your internet connection (or that your local model server is running) and try again.",
+  },
+  empty: {
+    message: "The model returned an empty response.",
+    nextStep: "Try again, or add a little more detail to your thought.",
+  },
+  malformed: {
+    message: "The model's answer couldn't be read.",
+    nextStep: "Try again, or turn off the self-check to get plain text.",
+  },
+  'too-large': {
+    message: "The text is too long for the translation server.",
+    nextStep: "Split it into smaller parts and translate them one at a time.",
+  },
+  server: {
+    message: "The translation service is having trouble right now.",
+    nextStep: "Try again in a few moments.",
+  },
+  aborted: {
+    message: "Translation stopped.",
+    nextStep: "Press Translate to start again.",
+  },
+  unknown: {
+    message: "Sorry, something went wrong while translating.",
+    nextStep: "Please try again.",
+  },
+};
+
+export function errorFromStatus(status: number, message: string, retryAfterMs?: number): TranslationError {
+  if (status === 401 || status === 403) return new TranslationError('auth', message, status);
+  if (status === 413) return new TranslationError('too-large', message, status);
+  if (status === 429) return new TranslationError('quota', message, status, retryAfterMs);
+  if (status >= 500) return new TranslationError('server', message, status, retryAfterMs);
+  return new TranslationError('unknown', message, status);
+}
+
+// Retry-After holds either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Normalizes anything a provider or fetch may throw into a TranslationError.
+export function toTranslationError(error: unknown): TranslationError {
+  if (error instanceof TranslationError) return error;
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new TranslationError('aborted', error.message);
+  }
+  // fetch rejects with a TypeError when the request never reaches the server
+  if (error instanceof TypeError) {
+    return new TranslationError('network', error.message);
+  }
+  const status = (error as { status?: unknown } | null)?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  if (typeof status === 'number') {
+    return errorFromStatus(status, message);
+  }
+  return new TranslationError('unknown', message);
+}
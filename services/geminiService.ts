@@ -1,52 +1,378 @@
-import { GoogleGenAI } from "@google/genai";
-import { Tone } from '../types';
+import { ToneProfile, RefinementTurn, GlossaryEntry, UsageRecord, PromptPreset } from '../types';
+import { describeGlossary, matchGlossary } from './glossary';
+import { SOURCE_LANGUAGE_INSTRUCTION, splitSourceLanguage, stripSourceLanguageHeader } from './sourceLanguage';
+import { PROTECTED_SPANS_INSTRUCTION, maskProtectedSpans, restoreProtectedSpans, restoreProtectedStream } from './protectedSpans';
+import { STRUCTURED_OUTPUT_RULES, TranslationStatus, parseStructuredResponse, streamRewriteField } from './structuredOutput';
+import { createProvider } from './providers';
+import { ChatMessage, ProviderId, TokenUsage, TranslationConfig, TranslationProvider } from './providers/types';
+import { TranslationError } from './errors';
+import { defaultRetryOptions, withRetry } from './retry';
+import { estimateTokens } from './usage';
+import { TranslationCache, hashKey, normalizeInput } from './translationCache';
+import { splitIntoChunks } from './providers/mockProvider';
 
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  // The proxy checks requested models against its own list
+  proxy: 'gemini-2.5-flash',
+  mock: 'mock',
+};
+
+function configFromEnv(): TranslationConfig {
+  const provider = (process.env.TRANSLATION_PROVIDER || 'gemini') as ProviderId;
+  return {
+    provider,
+    model: process.env.TRANSLATION_MODEL || DEFAULT_MODELS[provider],
+    temperature: 0.7,
+    topP: 0.95,
+    baseUrl: process.env.OPENAI_BASE_URL,
+    // The proxy holds the key server-side
+    apiKey: provider === 'proxy' ? undefined : provider === 'openai' ? process.env.OPENAI_API_KEY : process.env.API_KEY,
+    proxyUrl: process.env.PROXY_URL,
+  };
+}
+
+let config: TranslationConfig = configFromEnv();
+let provider: TranslationProvider | null = null;
+
+export function getTranslationConfig(): TranslationConfig {
+  return config;
+}
+
+// Replaces parts of the active configuration; the provider is rebuilt on next use.
+export function setTranslationConfig(changes: Partial<TranslationConfig>) {
+  const next = { ...config, ...changes };
+  if (changes.provider && !changes.model) {
+    next.model = DEFAULT_MODELS[changes.provider];
+  }
+  config = next;
+  provider = null;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Lets tests and embedders supply a ready-made provider (e.g. a mock with canned replies).
+export function setTranslationProvider(custom: TranslationProvider) {
+  config = { ...config, provider: custom.id };
+  provider = custom;
+}
+
+function getProvider(): TranslationProvider {
+  provider ??= createProvider(config);
+  return provider;
+}
 
-const systemInstruction = `You are an expert thought translator. Your task is to take any user input—fragmented sentences, broken grammar, slang, multilingual text, or messy thoughts—and rewrite it into clear, natural, and fluent text in a specified output language. You must adhere to the following rules strictly:
+let cache: TranslationCache | null = null;
+
+// Enables the response cache in front of translateThought; without one every call reaches the model.
+export function setTranslationCache(custom: TranslationCache | null) {
+  cache = custom;
+}
+
+let usageListener: ((record: UsageRecord) => void) | null = null;
+
+// Receives a record for every successful model call, including ones made for variants and batches.
+export function setUsageListener(listener: ((record: UsageRecord) => void) | null) {
+  usageListener = listener;
+}
+
+// Version of the built-in rules; bump whenever the instructions change so cached results from older prompts aren't reused
+export const SYSTEM_PROMPT_VERSION = 1;
+
+// The editable part of the system prompt; prompt presets replace it with their own rules
+export const DEFAULT_SYSTEM_RULES = `You are an expert thought translator. Your task is to take any user input—fragmented sentences, broken grammar, slang, multilingual text, or messy thoughts—and rewrite it into clear, natural, and fluent text in a specified output language. You must adhere to the following rules strictly:
 1.  **Preserve Core Meaning:** The rewritten text must have the exact same meaning, intent, and nuance as the original. Do not add any new information, ideas, or interpretations.
 2.  **Match Tone and Style:** Mirror the original tone (e.g., informal, humorous, professional). If the user uses slang, keep the conversational feel but make it understandable. The desired tone is specified by the user.
 3.  **Specified Language Output:** Always provide the output in the language specified by the user. If the input is in that language, refine it in the same language.
 4.  **Maintain Flow:** The length and structure should be similar to the original input. Do not expand short thoughts into long paragraphs or condense long sentences unnecessarily.
-5.  **Silent Correction:** Correct all spelling, grammar, and punctuation errors silently without drawing attention to them.
-6.  **Clarification:** If the user's input is too ambiguous or nonsensical to understand, respond ONLY with the phrase: "I'm not quite sure what you mean. Could you please provide a little more detail?"
+5.  **Silent Correction:** Correct all spelling, grammar, and punctuation errors silently without drawing attention to them.`;
+
+const PLAIN_OUTPUT_RULES = `6.  **Clarification:** If the user's input is too ambiguous or nonsensical to understand, respond ONLY with the phrase: "I'm not quite sure what you mean. Could you please provide a little more detail?"
 7.  **Direct Output:** Your entire response should ONLY be the refined text. Do not include any preambles, apologies, or explanations like "Here is the refined version:".`;
 
-export async function translateThought(text: string, tone: Tone, language: string, onChunk: (chunk: string) => void): Promise<string> {
-  if (!text.trim()) {
-    return "";
+// The output rules are always appended, since the app relies on the response format.
+// Structured mode replaces the free-text clarification and output rules with a JSON contract.
+export function buildSystemInstruction(rules: string, structured: boolean): string {
+  return `${rules.trim()}
+${structured ? STRUCTURED_OUTPUT_RULES : PLAIN_OUTPUT_RULES}`;
+}
+
+export interface TranslateOptions {
+  // Per-call overrides of model, temperature and topP
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  // Aborting keeps whatever was already passed to onChunk and rejects with an 'aborted' error
+  signal?: AbortSignal;
+  // The user's glossary; entries matching the input are added to the prompt
+  glossary?: GlossaryEntry[];
+  // Language the input is written in; when omitted the model detects and reports it
+  sourceLanguage?: string;
+  // Request a JSON answer with a status, clarifying questions and a back-translation
+  structured?: boolean;
+  // 'use' (default) reads and fills the cache, 'refresh' regenerates and replaces the
+  // cached result, 'skip' leaves the cache alone (e.g. for variants, which should differ)
+  cache?: 'use' | 'refresh' | 'skip';
+  // Core rules of the system prompt, from the selected prompt preset; defaults to DEFAULT_SYSTEM_RULES
+  systemRules?: string;
+}
+
+export interface TranslationResult {
+  text: string;
+  sourceLanguage?: string;
+  // Only set in structured mode; plain-text results are always treated as 'ok'
+  status?: TranslationStatus;
+  questions?: string[];
+  backTranslation?: string;
+  // Tokens and timings of the model call that produced this result; absent for cached results
+  usage?: UsageRecord;
+  cached?: boolean;
+}
+
+// The request a translation was made with, plus the output being refined
+export interface TranslationBase {
+  input: string;
+  tone: ToneProfile;
+  language: string;
+  output: string;
+  sourceLanguage?: string;
+  // Preset whose rules produced the output; refinements keep using them
+  prompt?: PromptPreset;
+}
+
+function describeTone(tone: ToneProfile): string {
+  let description = `Tone: ${tone.name}`;
+  if (tone.guidance.trim()) {
+    description += `\nStyle Guidance: ${tone.guidance.trim()}`;
   }
-  
-  const userPrompt = `Tone: ${tone}\nOutput Language: ${language}\nTranslate the following thought:\n---\n${text}`;
+  if (tone.examples.length > 0) {
+    const examples = tone.examples
+      .map((example, i) => `Example ${i + 1} input: ${example.input}\nExample ${i + 1} output: ${example.output}`)
+      .join('\n');
+    description += `\nExamples of this tone:\n${examples}`;
+  }
+  return description;
+}
 
+interface PromptContext {
+  glossary?: GlossaryEntry[];
+  sourceLanguage?: string;
+  // Ask the model to report the input's language on a header line
+  detectSourceLanguage?: boolean;
+  // The text contains masked spans that must be copied through unchanged
+  hasProtectedSpans?: boolean;
+}
+
+function buildTranslationPrompt(text: string, tone: ToneProfile, language: string, context: PromptContext = {}): string {
+  const matches = matchGlossary(context.glossary ?? [], text, language);
+  const inputLanguage = context.sourceLanguage ? `\nInput Language: ${context.sourceLanguage}` : '';
+  const glossaryRules = matches.length > 0 ? `\nGlossary (follow strictly):\n${describeGlossary(matches)}` : '';
+  const detection = context.detectSourceLanguage ? `\n${SOURCE_LANGUAGE_INSTRUCTION}` : '';
+  const spans = context.hasProtectedSpans ? `\n${PROTECTED_SPANS_INSTRUCTION}` : '';
+  return `${describeTone(tone)}${inputLanguage}\nOutput Language: ${language}${glossaryRules}${spans}${detection}\nTranslate the following thought:\n---\n${text}`;
+}
+
+function buildRefinementPrompt(instruction: string): string {
+  return `Revise your previous version according to the instruction below. Keep following all the rules, the tone and the output language, and respond ONLY with the complete revised text.\nInstruction:\n---\n${instruction}`;
+}
+
+// What a call is for, so its usage can be broken down by tone and language
+interface CallLabels {
+  tone: string;
+  language: string;
+}
+
+async function streamConversation(messages: ChatMessage[], onChunk: (chunk: string) => void, options: TranslateOptions, labels: CallLabels): Promise<{ text: string; usage: UsageRecord }> {
+  let fullResponse = "";
+  let reported: TokenUsage | undefined;
+  let firstChunkAt: number | undefined;
+  const model = options.model ?? config.model;
+  const systemText = buildSystemInstruction(options.systemRules ?? DEFAULT_SYSTEM_RULES, !!options.structured);
+  // Timings include any retries, since that's what the user waits for
+  const startedAt = Date.now();
   try {
-    const responseStream = await ai.models.generateContentStream({
-        model: 'gemini-2.5-flash',
-        contents: userPrompt,
-        config: {
-            systemInstruction: systemInstruction,
-            temperature: 0.7,
-            topP: 0.95,
-            thinkingConfig: { thinkingBudget: 0 },
-        }
-    });
-
-    let fullResponse = "";
-    for await (const chunk of responseStream) {
-        const chunkText = chunk.text;
-        if(chunkText) {
-            fullResponse += chunkText;
-            onChunk(chunkText);
-        }
-    }
-    return fullResponse.trim();
+    await withRetry(async () => {
+      reported = undefined;
+      const responseStream = getProvider().generateStream({
+          systemInstruction: systemText,
+          responseFormat: options.structured ? 'json' : 'text',
+          messages,
+          model,
+          temperature: options.temperature ?? config.temperature,
+          topP: options.topP ?? config.topP,
+          signal: options.signal,
+          onUsage: (usage) => { reported = usage; },
+      });
 
+      for await (const chunkText of responseStream) {
+          firstChunkAt ??= Date.now();
+          fullResponse += chunkText;
+          onChunk(chunkText);
+      }
+    },
+    // Once text has been streamed to the caller a retry would duplicate it
+    (error) => error.retryable && !fullResponse,
+    { ...defaultRetryOptions, signal: options.signal });
   } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    throw new Error("Sorry, something went wrong while translating. Please try again.");
+    if (!(error instanceof TranslationError && error.kind === 'aborted')) {
+      console.error(`Error calling ${config.provider} provider:`, error);
+    }
+    throw error;
+  }
+
+  const result = fullResponse.trim();
+  if (!result) {
+    throw new TranslationError('empty', "The model returned an empty response");
+  }
+
+  const usage: UsageRecord = {
+    timestamp: startedAt,
+    provider: config.provider,
+    model,
+    ...labels,
+    promptTokens: reported?.promptTokens ?? estimateTokens(systemText + messages.map(message => message.text).join('')),
+    responseTokens: reported?.responseTokens ?? estimateTokens(fullResponse),
+    firstChunkMs: firstChunkAt === undefined ? undefined : firstChunkAt - startedAt,
+    latencyMs: Date.now() - startedAt,
+    estimated: reported ? undefined : true,
+  };
+  usageListener?.(usage);
+  return { text: result, usage };
+}
+
+// Everything that shapes the response goes into the key
+function cacheKey(text: string, tone: ToneProfile, language: string, options: TranslateOptions): string {
+  return hashKey(JSON.stringify({
+    input: normalizeInput(text),
+    tone: { name: tone.name, guidance: tone.guidance, examples: tone.examples },
+    language,
+    provider: config.provider,
+    model: options.model ?? config.model,
+    temperature: options.temperature ?? config.temperature,
+    topP: options.topP ?? config.topP,
+    systemPrompt: SYSTEM_PROMPT_VERSION,
+    rules: (options.systemRules ?? DEFAULT_SYSTEM_RULES).trim(),
+    structured: !!options.structured,
+    sourceLanguage: options.sourceLanguage,
+    glossary: matchGlossary(options.glossary ?? [], text, language).map(({ term, kind, rendering }) => ({ term, kind, rendering })),
+  }));
+}
+
+export async function translateThought(text: string, tone: ToneProfile, language: string, onChunk: (chunk: string) => void, options: TranslateOptions = {}): Promise<TranslationResult> {
+  if (!text.trim()) {
+    return { text: "" };
   }
+
+  const mode = cache ? options.cache ?? 'use' : 'skip';
+  const key = mode === 'skip' ? '' : cacheKey(text, tone, language, options);
+  if (mode === 'use') {
+    const hit = cache!.get(key);
+    if (hit) {
+      // Replayed through onChunk so callers handle cached and fresh results the same way
+      for (const chunk of splitIntoChunks(hit.text)) {
+        onChunk(chunk);
+      }
+      return { ...hit, cached: true };
+    }
+  }
+
+  const result = await translateUncached(text, tone, language, onChunk, options);
+  // Only real translations are kept; a clarification request should be asked again
+  if (mode !== 'skip' && (!result.status || result.status === 'ok')) {
+    const { usage, cached, ...stored } = result;
+    cache!.set(key, stored);
+  }
+  return result;
+}
+
+async function translateUncached(text: string, tone: ToneProfile, language: string, onChunk: (chunk: string) => void, options: TranslateOptions): Promise<TranslationResult> {
+  const masked = maskProtectedSpans(text);
+  const result = await translateMasked(masked.text, masked.spans.length > 0, tone, language, restoreProtectedStream(onChunk, masked.spans), options);
+  if (masked.spans.length === 0) {
+    return result;
+  }
+  return {
+    ...result,
+    text: restoreProtectedSpans(result.text, masked.spans),
+    backTranslation: result.backTranslation && restoreProtectedSpans(result.backTranslation, masked.spans),
+  };
+}
+
+async function translateMasked(text: string, hasProtectedSpans: boolean, tone: ToneProfile, language: string, onChunk: (chunk: string) => void, options: TranslateOptions): Promise<TranslationResult> {
+  const context = { glossary: options.glossary, hasProtectedSpans };
+  const labels = { tone: tone.name, language };
+
+  if (options.structured) {
+    // The JSON answer reports the source language itself, so no header is requested
+    const prompt = buildTranslationPrompt(text, tone, language, { ...context, sourceLanguage: options.sourceLanguage });
+    const { text: json, usage } = await streamConversation([{ role: 'user', text: prompt }], streamRewriteField(onChunk), options, labels);
+    const response = parseStructuredResponse(json);
+    if (response.status === 'ok' && !response.rewrite) {
+      throw new TranslationError('empty', "The model returned an empty rewrite");
+    }
+    return {
+      text: response.rewrite,
+      sourceLanguage: options.sourceLanguage ?? response.sourceLanguage,
+      status: response.status,
+      questions: response.questions,
+      backTranslation: response.backTranslation,
+      usage,
+    };
+  }
+
+  if (options.sourceLanguage) {
+    const prompt = buildTranslationPrompt(text, tone, language, { ...context, sourceLanguage: options.sourceLanguage });
+    const { text: result, usage } = await streamConversation([{ role: 'user', text: prompt }], onChunk, options, labels);
+    return { text: result, sourceLanguage: options.sourceLanguage, usage };
+  }
+
+  const prompt = buildTranslationPrompt(text, tone, language, { ...context, detectSourceLanguage: true });
+  const { text: response, usage } = await streamConversation([{ role: 'user', text: prompt }], stripSourceLanguageHeader(onChunk), options, labels);
+  const { sourceLanguage, text: result } = splitSourceLanguage(response);
+  if (!result.trim()) {
+    throw new TranslationError('empty', "The model returned an empty response");
+  }
+  return { text: result.trim(), sourceLanguage, usage };
+}
+
+// Generates `count` independent candidates in parallel. Each settles on its own so one
+// failure doesn't discard the others.
+export function translateVariants(text: string, tone: ToneProfile, language: string, count: number, onChunk: (index: number, chunk: string) => void, options: TranslateOptions = {}): Promise<PromiseSettledResult<TranslationResult>[]> {
+  return Promise.allSettled(
+    Array.from({ length: count }, (_, index) =>
+      translateThought(text, tone, language, chunk => onChunk(index, chunk), { ...options, cache: 'skip' }))
+  );
+}
+
+// Translates the same thought into each language in parallel. Like variants, each one settles on its own.
+export function translateToLanguages(text: string, tone: ToneProfile, languages: string[], onChunk: (index: number, chunk: string) => void, options: TranslateOptions = {}): Promise<PromiseSettledResult<TranslationResult>[]> {
+  return Promise.allSettled(
+    languages.map((language, index) =>
+      translateThought(text, tone, language, chunk => onChunk(index, chunk), options))
+  );
+}
+
+// Continues the conversation that produced `output` with a follow-up instruction,
+// so the original thought isn't translated again from scratch.
+export async function refineTranslation(base: TranslationBase, turns: RefinementTurn[], instruction: string, onChunk: (chunk: string) => void, options: TranslateOptions = {}): Promise<TranslationResult> {
+  if (!instruction.trim()) {
+    return { text: "" };
+  }
+
+  const messages: ChatMessage[] = [
+    { role: 'user', text: buildTranslationPrompt(base.input, base.tone, base.language, { glossary: options.glossary, sourceLanguage: base.sourceLanguage }) },
+    { role: 'model', text: base.output },
+  ];
+  for (const turn of turns) {
+    messages.push({ role: 'user', text: buildRefinementPrompt(turn.instruction) });
+    messages.push({ role: 'model', text: turn.output });
+  }
+  messages.push({ role: 'user', text: buildRefinementPrompt(instruction) });
+
+  // Refinements continue a plain-text conversation even when the first answer was structured
+  const { text: result, usage } = await streamConversation(messages, onChunk, {
+    ...options,
+    structured: false,
+    systemRules: base.prompt?.rules ?? options.systemRules,
+  }, { tone: base.tone.name, language: base.language });
+  return { text: result, sourceLanguage: base.sourceLanguage, usage };
 }
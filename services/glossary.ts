@@ -0,0 +1,66 @@
+import { GlossaryEntry } from '../types';
+
+const STORAGE_KEY = 'glossary';
+
+export interface GlossaryViolation {
+  entry: GlossaryEntry;
+  // What the output should have contained
+  expected: string;
+}
+
+export function loadGlossary(): GlossaryEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to load glossary from localStorage", e);
+    return [];
+  }
+}
+
+export function saveGlossary(entries: GlossaryEntry[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.error("Failed to save glossary to localStorage", e);
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Matches the term as a whole word, including in scripts where \b doesn't work.
+function termPattern(term: string, flags: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term.trim())}(?![\\p{L}\\p{N}])`, flags);
+}
+
+// Entries that apply to this input and output language.
+export function matchGlossary(entries: GlossaryEntry[], text: string, language: string): GlossaryEntry[] {
+  return entries.filter(entry =>
+    entry.term.trim() &&
+    (entry.kind === 'protected' || (entry.rendering?.trim() && entry.language === language)) &&
+    termPattern(entry.term, 'iu').test(text)
+  );
+}
+
+export function describeGlossary(matches: GlossaryEntry[]): string {
+  return matches
+    .map(entry => entry.kind === 'protected'
+      ? `- Keep "${entry.term.trim()}" exactly as written; do not translate, respell or correct it.`
+      : `- Render "${entry.term.trim()}" as "${entry.rendering!.trim()}".`)
+    .join('\n');
+}
+
+// Protected terms must appear verbatim and mappings must use their preferred rendering.
+export function checkGlossary(matches: GlossaryEntry[], output: string): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+  for (const entry of matches) {
+    const expected = entry.kind === 'protected' ? entry.term.trim() : entry.rendering!.trim();
+    const flags = entry.kind === 'protected' ? 'u' : 'iu';
+    if (!termPattern(expected, flags).test(output)) {
+      violations.push({ entry, expected });
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,104 @@
+import { HistoryEntry } from '../types';
+
+const DB_NAME = 'thought-translator';
+// Bump when the schema changes and add a step to `upgrade` below
+const DB_VERSION = 1;
+const STORE = 'history';
+const LEGACY_STORAGE_KEY = 'translationHistory';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function readLegacyHistory(): HistoryEntry[] {
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to read legacy history from localStorage", e);
+    return [];
+  }
+}
+
+// Each case upgrades from one version to the next and falls through to the later ones.
+function upgrade(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) {
+  switch (oldVersion) {
+    case 0: {
+      const store = db.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('timestamp', 'timestamp');
+      // Version 1 replaces the single localStorage array
+      for (const entry of readLegacyHistory()) {
+        store.put(entry);
+      }
+    }
+  }
+}
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migratedLegacy = false;
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, request.transaction!, event.oldVersion);
+      migratedLegacy = event.oldVersion === 0;
+    };
+    request.onsuccess = () => {
+      // Only drop the old key once the upgrade transaction has committed
+      if (migratedLegacy) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      }
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+}
+
+// Returns every entry, newest first.
+export async function getAllHistory(): Promise<HistoryEntry[]> {
+  const db = await openDb();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('timestamp');
+  const entries = await requestToPromise(index.getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.reverse();
+}
+
+export async function putHistoryEntries(entries: HistoryEntry[]): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  for (const entry of entries) {
+    store.put(entry);
+  }
+  await transactionDone(transaction);
+}
+
+export function putHistoryEntry(entry: HistoryEntry): Promise<void> {
+  return putHistoryEntries([entry]);
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+export async function clearHistory(): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).clear();
+  await transactionDone(transaction);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { exportHistoryJson, parseHistoryImport } from './historyTransfer';
+import { defaultToneProfile } from './toneProfiles';
+import { HistoryEntry } from '../types';
+
+const entry: HistoryEntry = {
+  id: '2026-01-01T00:00:00.000Z',
+  input: 'meeting tmrw cant come sry',
+  output: "Sorry, I can't make it to the meeting tomorrow.",
+  tone: defaultToneProfile.name,
+  toneProfile: defaultToneProfile,
+  outputLanguage: 'English',
+  sourceLanguage: 'English',
+  starred: true,
+  usage: [{ timestamp: 1, provider: 'mock', model: 'mock', tone: 'Friendly', language: 'English', promptTokens: 10, responseTokens: 12, latencyMs: 40 }],
+  timestamp: Date.parse('2026-01-01T00:00:00.000Z'),
+};
+
+describe('parseHistoryImport', () => {
+  it('reads back its own export', () => {
+    expect(parseHistoryImport(exportHistoryJson([entry]))).toEqual({ entries: [entry], rejected: 0 });
+  });
+
+  it('rejects entries with malformed nested fields', () => {
+    const malformed = [
+      { ...entry, id: 'a', toneProfile: { name: 'Friendly' } },
+      { ...entry, id: 'b', usage: 'lots' },
+      { ...entry, id: 'c', usage: [{ model: 'mock' }] },
+      { ...entry, id: 'd', sourceLanguage: 42 },
+      { ...entry, id: 'e', starred: 'yes' },
+      { ...entry, id: 'f', toneProfile: { ...defaultToneProfile, examples: [{ input: 'hi' }] } },
+    ];
+
+    expect(parseHistoryImport(JSON.stringify([entry, ...malformed]))).toEqual({ entries: [entry], rejected: malformed.length });
+  });
+
+  it('refuses files that are not history exports', () => {
+    expect(() => parseHistoryImport('{oops')).toThrow('not valid JSON');
+    expect(() => parseHistoryImport('"entries"')).toThrow('not a Thought Translator history export');
+    expect(() => parseHistoryImport(JSON.stringify({ format: 'thought-translator-history', version: 99, entries: [] }))).toThrow('Unsupported');
+  });
+});
@@ -0,0 +1,154 @@
+import { HistoryEntry } from '../types';
+import { formatCsv } from '../utils/csv';
+import { isPromptPreset } from './promptPresets';
+import { isToneProfile } from './toneProfiles';
+import { isUsageRecord } from './usage';
+import { isRecord } from '../utils/typeGuards';
+
+export const HISTORY_EXPORT_FORMAT = 'thought-translator-history';
+export const HISTORY_EXPORT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+export type DuplicateMode = 'skip' | 'merge';
+
+export interface HistoryExport {
+  format: typeof HISTORY_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  entries: HistoryEntry[];
+}
+
+export interface ParsedImport {
+  entries: HistoryEntry[];
+  rejected: number;
+}
+
+export interface ImportSummary {
+  added: number;
+  merged: number;
+  skipped: number;
+  rejected: number;
+}
+
+export const exportFileDetails: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+};
+
+export function exportHistoryJson(entries: HistoryEntry[]): string {
+  const data: HistoryExport = {
+    format: HISTORY_EXPORT_FORMAT,
+    version: HISTORY_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+export function exportHistoryCsv(entries: HistoryEntry[]): string {
+  const header = ['id', 'date', 'tone', 'outputLanguage', 'input', 'output', 'starred'];
+  const rows = entries.map(entry => [
+    entry.id,
+    new Date(entry.timestamp).toISOString(),
+    entry.tone,
+    entry.outputLanguage,
+    entry.input,
+    entry.output,
+    entry.starred ? 'yes' : 'no',
+  ]);
+  return formatCsv([header, ...rows]);
+}
+
+function quoteBlock(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+export function exportHistoryMarkdown(entries: HistoryEntry[]): string {
+  const sections = entries.map(entry => {
+    const heading = `## ${new Date(entry.timestamp).toLocaleString()} · ${entry.tone} · ${entry.outputLanguage}${entry.starred ? ' ★' : ''}`;
+    return `${heading}\n\n**Original**\n\n${quoteBlock(entry.input)}\n\n**Polished**\n\n${entry.output}`;
+  });
+  return `# Thought Translator History\n\n${sections.join('\n\n---\n\n')}\n`;
+}
+
+export function exportHistory(entries: HistoryEntry[], format: ExportFormat): string {
+  switch (format) {
+    case 'json': return exportHistoryJson(entries);
+    case 'csv': return exportHistoryCsv(entries);
+    case 'markdown': return exportHistoryMarkdown(entries);
+  }
+}
+
+function isOptionalStringArray(value: unknown): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+}
+
+export function isHistoryEntry(value: unknown): value is HistoryEntry {
+  return isRecord(value)
+    && typeof value.id === 'string' && value.id !== ''
+    && typeof value.input === 'string'
+    && typeof value.output === 'string'
+    && typeof value.tone === 'string'
+    && typeof value.outputLanguage === 'string'
+    && typeof value.timestamp === 'number' && Number.isFinite(value.timestamp)
+    && isOptionalStringArray(value.variants)
+    && (value.sourceLanguage === undefined || typeof value.sourceLanguage === 'string')
+    && (value.starred === undefined || typeof value.starred === 'boolean')
+    && (value.groupId === undefined || typeof value.groupId === 'string')
+    && (value.queuedAt === undefined || typeof value.queuedAt === 'number')
+    && (value.backTranslation === undefined || typeof value.backTranslation === 'string')
+    && (value.originalOutput === undefined || typeof value.originalOutput === 'string')
+    && (value.toneProfile === undefined || isToneProfile(value.toneProfile))
+    && (value.promptPreset === undefined || isPromptPreset(value.promptPreset))
+    && (value.usage === undefined || (Array.isArray(value.usage) && value.usage.every(isUsageRecord)))
+    && (value.refinements === undefined || (Array.isArray(value.refinements) && value.refinements.every(
+      turn => isRecord(turn) && typeof turn.instruction === 'string' && typeof turn.output === 'string'
+    )));
+}
+
+// Accepts an export file or a bare array of entries (the old localStorage format).
+export function parseHistoryImport(json: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  let items: unknown[];
+  if (Array.isArray(data)) {
+    items = data;
+  } else {
+    if (!isRecord(data) || data.format !== HISTORY_EXPORT_FORMAT || !Array.isArray(data.entries)) {
+      throw new Error("The file is not a Thought Translator history export.");
+    }
+    if (typeof data.version !== 'number' || data.version > HISTORY_EXPORT_VERSION) {
+      throw new Error(`Unsupported history export version: ${data.version}.`);
+    }
+    items = data.entries;
+  }
+  const entries = items.filter(isHistoryEntry);
+  return { entries, rejected: items.length - entries.length };
+}
+
+// Returns the entries to write and a summary. Duplicates (same id) are either left alone
+// or merged, with imported fields overriding existing ones.
+export function mergeImportedHistory(existing: HistoryEntry[], parsed: ParsedImport, mode: DuplicateMode): { changed: HistoryEntry[]; summary: ImportSummary } {
+  const byId = new Map(existing.map(entry => [entry.id, entry]));
+  const changed = new Map<string, HistoryEntry>();
+  const summary: ImportSummary = { added: 0, merged: 0, skipped: 0, rejected: parsed.rejected };
+
+  for (const entry of parsed.entries) {
+    const current = changed.get(entry.id) ?? byId.get(entry.id);
+    if (!current) {
+      summary.added++;
+      changed.set(entry.id, entry);
+    } else if (mode === 'merge') {
+      summary.merged++;
+      changed.set(entry.id, { ...current, ...entry });
+    } else {
+      summary.skipped++;
+    }
+  }
+  return { changed: [...changed.values()], summary };
+}
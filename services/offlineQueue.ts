@@ -0,0 +1,91 @@
+import { GlossaryEntry, HistoryEntry, PromptPreset, ToneProfile } from '../types';
+import { translateToLanguages, TranslationResult } from './geminiService';
+import { isSuccessful, unsuccessfulMessage } from './structuredOutput';
+import { errorGuidance } from './errors';
+
+const STORAGE_KEY = 'offlineQueue';
+
+// A translation requested while offline, with the settings it was requested with
+export interface QueuedTranslation {
+  id: string;
+  input: string;
+  tone: ToneProfile;
+  // One history entry is made per language; variants aren't generated for queued requests
+  languages: string[];
+  // Undefined lets the model detect the input language
+  sourceLanguage?: string;
+  glossary: GlossaryEntry[];
+  structured: boolean;
+  prompt: PromptPreset;
+  queuedAt: number;
+  // Failed requests stay queued with the reason until retried or removed
+  error?: string;
+}
+
+export type TranslationRequest = Omit<QueuedTranslation, 'id' | 'queuedAt' | 'error'>;
+
+// The history entries a sent request produced, or why it produced none
+export type QueueOutcome = { entries: HistoryEntry[] } | { error: string };
+
+export function createQueuedTranslation(request: TranslationRequest): QueuedTranslation {
+  const queuedAt = Date.now();
+  return { ...request, id: `queued-${new Date(queuedAt).toISOString()}`, queuedAt };
+}
+
+export function loadOfflineQueue(): QueuedTranslation[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to load offline queue from localStorage", e);
+    return [];
+  }
+}
+
+export function saveOfflineQueue(queue: QueuedTranslation[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  } catch (e) {
+    console.error("Failed to save offline queue to localStorage", e);
+  }
+}
+
+// Translates a queued request into each of its languages. Rejects with the first error when
+// every language failed, so a dropped connection can be told apart from a bad request.
+export async function sendQueuedTranslation(item: QueuedTranslation, signal?: AbortSignal): Promise<QueueOutcome> {
+  const results = await translateToLanguages(item.input, item.tone, item.languages, () => {}, {
+    signal,
+    glossary: item.glossary,
+    sourceLanguage: item.sourceLanguage,
+    structured: item.structured,
+    systemRules: item.prompt.rules,
+  });
+
+  const firstFailure = results.find(r => r.status === 'rejected');
+  if (firstFailure && results.every(r => r.status === 'rejected')) {
+    throw firstFailure.reason;
+  }
+
+  const groupId = item.languages.length > 1 ? new Date().toISOString() : undefined;
+  const entries = results.flatMap((result, i): HistoryEntry[] => result.status === 'fulfilled' && isSuccessful(result.value) && result.value.text ? [{
+    id: groupId ? `${groupId}-${i}` : new Date().toISOString(),
+    input: item.input,
+    output: result.value.text,
+    tone: item.tone.name,
+    toneProfile: item.tone,
+    promptPreset: item.prompt,
+    outputLanguage: item.languages[i],
+    sourceLanguage: result.value.sourceLanguage,
+    backTranslation: result.value.backTranslation,
+    usage: result.value.usage && [result.value.usage],
+    timestamp: Date.now(),
+    groupId,
+    queuedAt: item.queuedAt,
+  }] : []);
+
+  if (entries.length === 0) {
+    const unsuccessful = results.find((r): r is PromiseFulfilledResult<TranslationResult> => r.status === 'fulfilled' && !isSuccessful(r.value));
+    return { error: unsuccessful ? unsuccessfulMessage(unsuccessful.value) : errorGuidance.empty.message };
+  }
+  return { entries };
+}
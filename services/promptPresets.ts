@@ -0,0 +1,83 @@
+import { PromptPreset } from '../types';
+import { DEFAULT_SYSTEM_RULES, SYSTEM_PROMPT_VERSION } from './geminiService';
+import { isRecord } from '../utils/typeGuards';
+
+const STORAGE_KEY = 'promptPresets';
+const ACTIVE_STORAGE_KEY = 'activePromptPreset';
+
+// The rules the app ships with; it can be viewed and copied but not edited
+export const builtInPromptPreset: PromptPreset = {
+  id: 'default',
+  name: 'Default',
+  rules: DEFAULT_SYSTEM_RULES,
+  version: SYSTEM_PROMPT_VERSION,
+  builtIn: true,
+  updatedAt: 0,
+};
+
+export function createPromptPreset(name: string, rules: string): PromptPreset {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    rules: rules.trim(),
+    version: 1,
+    updatedAt: Date.now(),
+  };
+}
+
+// Saving changed rules starts a new version; renaming alone keeps the current one
+export function updatePromptPreset(preset: PromptPreset, name: string, rules: string): PromptPreset {
+  const changed = rules.trim() !== preset.rules;
+  return {
+    ...preset,
+    name: name.trim(),
+    rules: rules.trim(),
+    version: changed ? preset.version + 1 : preset.version,
+    updatedAt: Date.now(),
+  };
+}
+
+export function isPromptPreset(value: unknown): value is PromptPreset {
+  return isRecord(value)
+    && typeof value.id === 'string' && value.id !== ''
+    && typeof value.name === 'string'
+    && typeof value.rules === 'string'
+    && typeof value.version === 'number'
+    && typeof value.updatedAt === 'number';
+}
+
+export function loadPromptPresets(): PromptPreset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const data = stored ? JSON.parse(stored) : [];
+    return Array.isArray(data) ? data.filter(isPromptPreset) : [];
+  } catch (e) {
+    console.error("Failed to load prompt presets from localStorage", e);
+    return [];
+  }
+}
+
+export function savePromptPresets(presets: PromptPreset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.error("Failed to save prompt presets to localStorage", e);
+  }
+}
+
+export function loadActivePromptId(): string {
+  try {
+    return localStorage.getItem(ACTIVE_STORAGE_KEY) ?? builtInPromptPreset.id;
+  } catch (e) {
+    console.error("Failed to load the active prompt preset from localStorage", e);
+    return builtInPromptPreset.id;
+  }
+}
+
+export function saveActivePromptId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_STORAGE_KEY, id);
+  } catch (e) {
+    console.error("Failed to save the active prompt preset to localStorage", e);
+  }
+}
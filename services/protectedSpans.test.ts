@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { maskProtectedSpans, restoreProtectedSpans } from './protectedSpans';
+
+describe('protected spans', () => {
+  it('masks emoji shortcodes', () => {
+    const masked = maskProtectedSpans('shipped it :tada::rocket:');
+
+    expect(masked.text).toBe('shipped it ⟦0⟧⟦1⟧');
+    expect(restoreProtectedSpans(masked.text, masked.spans)).toBe('shipped it :tada::rocket:');
+  });
+
+  it('leaves colons between words and numbers alone', () => {
+    expect(maskProtectedSpans('ratio 1:a:2, path a:b:c').spans).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+// Code, URLs, mentions and template placeholders must reach the output unchanged, so they
+// are swapped for numbered tokens before the prompt is built and put back afterwards.
+
+export interface ProtectedSpan {
+  token: string;
+  text: string;
+}
+
+export interface MaskedText {
+  text: string;
+  spans: ProtectedSpan[];
+}
+
+// Ordered so that larger constructs win: a URL inside a code block stays part of the block
+const PROTECTED_PATTERNS: RegExp[] = [
+  /```[\s\S]*?```/,                         // fenced code blocks
+  /`[^`\n]+`/,                               // inline code
+  /\bhttps?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/, // URLs, without trailing punctuation
+  /<[@#!][^>\s]+>/,                          // Slack-style mentions and channel links
+  /(?<![\w@])@[\w][\w.-]*\w/,                // @mentions
+  /\{\{\s*[\w.]+\s*\}\}|\$\{[\w.]+\}|\{[\w.]*\}/, // {{name}}, ${name}, {name} and {}
+  /%(?:\d+\$)?[-+#0]*\d*(?:\.\d+)?[sdifuxXoeEgGc@%](?![a-zA-Z])/, // printf-style %s, %1$d, %.2f
+  /(?<!\w):[a-z0-9_+-]*[a-z][a-z0-9_+-]*:(?!\w)/, // :emoji: shortcodes, but not ratios like 1:a:2
+];
+
+const PROTECTED = new RegExp(PROTECTED_PATTERNS.map(pattern => pattern.source).join('|'), 'g');
+
+// Unusual brackets so the tokens don't collide with anything a user would type
+const tokenFor = (index: number) => `⟦${index}⟧`;
+const TOKEN = /⟦(\d+)⟧/g;
+
+export const PROTECTED_SPANS_INSTRUCTION =
+  "The thought contains placeholder tokens like ⟦0⟧ standing for code, links, mentions or template variables. Copy every token into your rewrite exactly once, unchanged, where it belongs in the sentence. Keep any Markdown formatting (emphasis, lists, headings) as it is.";
+
+export function maskProtectedSpans(text: string): MaskedText {
+  const spans: ProtectedSpan[] = [];
+  const masked = text.replace(PROTECTED, match => {
+    // A literal `%%` is an escaped percent sign, not a placeholder
+    if (match === '%%') return match;
+    const token = tokenFor(spans.length);
+    spans.push({ token, text: match });
+    return token;
+  });
+  return { text: masked, spans };
+}
+
+export function restoreProtectedSpans(text: string, spans: ProtectedSpan[]): string {
+  if (spans.length === 0) return text;
+  return text.replace(TOKEN, (token, index) => spans[Number(index)]?.text ?? token);
+}
+
+// Wraps a chunk callback so tokens are restored as they stream in. A token split across
+// chunks is held back until its closing bracket arrives.
+export function restoreProtectedStream(onChunk: (chunk: string) => void, spans: ProtectedSpan[]): (chunk: string) => void {
+  if (spans.length === 0) return onChunk;
+  let pending = '';
+
+  return (chunk: string) => {
+    pending += chunk;
+    const partial = pending.match(/⟦\d*$/);
+    const ready = partial ? pending.slice(0, partial.index) : pending;
+    pending = partial ? partial[0] : '';
+    if (ready) onChunk(restoreProtectedSpans(ready, spans));
+  };
+}
+
+// Protected spans of the input that don't appear verbatim in the output
+export function findLostSpans(input: string, output: string): string[] {
+  return maskProtectedSpans(input).spans.map(span => span.text).filter(text => !output.includes(text));
+}
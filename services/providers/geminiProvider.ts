@@ -0,0 +1,60 @@
+import { GoogleGenAI, FinishReason } from "@google/genai";
+import { TranslationProvider, ProviderRequest } from './types';
+import { TranslationError, toTranslationError } from '../errors';
+
+function classifyGeminiError(error: unknown): TranslationError {
+  const translationError = toTranslationError(error);
+  // Gemini answers an invalid key with 400 rather than 401
+  if (translationError.status === 400 && /API key/i.test(translationError.message)) {
+    return new TranslationError('auth', translationError.message, 400);
+  }
+  return translationError;
+}
+
+export function createGeminiProvider(apiKey?: string): TranslationProvider {
+  let ai: GoogleGenAI | null = null;
+
+  return {
+    id: 'gemini',
+    async *generateStream(request: ProviderRequest) {
+      if (!apiKey) {
+        throw new TranslationError('auth', "API_KEY environment variable not set");
+      }
+      // Created lazily so a missing key only fails when Gemini is actually used
+      ai ??= new GoogleGenAI({ apiKey });
+
+      try {
+        const responseStream = await ai.models.generateContentStream({
+          model: request.model,
+          contents: request.messages.map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+          config: {
+            systemInstruction: request.systemInstruction,
+            temperature: request.temperature,
+            topP: request.topP,
+            responseMimeType: request.responseFormat === 'json' ? 'application/json' : undefined,
+            thinkingConfig: { thinkingBudget: 0 },
+            abortSignal: request.signal,
+          }
+        });
+
+        for await (const chunk of responseStream) {
+          if (chunk.promptFeedback?.blockReason || chunk.candidates?.[0]?.finishReason === FinishReason.SAFETY) {
+            throw new TranslationError('safety', chunk.promptFeedback?.blockReasonMessage || "Response blocked by safety filters");
+          }
+          // Every chunk carries the running totals; the last one wins
+          if (chunk.usageMetadata) {
+            request.onUsage?.({
+              promptTokens: chunk.usageMetadata.promptTokenCount ?? 0,
+              responseTokens: chunk.usageMetadata.candidatesTokenCount ?? 0,
+            });
+          }
+          if (chunk.text) {
+            yield chunk.text;
+          }
+        }
+      } catch (error) {
+        throw classifyGeminiError(error);
+      }
+    },
+  };
+}
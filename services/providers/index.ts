@@ -0,0 +1,20 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { TranslationConfig, TranslationProvider } from './types';
+
+export function createProvider(config: TranslationConfig): TranslationProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiProvider(config.apiKey);
+    case 'openai':
+      return createOpenAICompatibleProvider(config.baseUrl || 'https://api.openai.com/v1', config.apiKey);
+    case 'proxy':
+      return createProxyProvider(config.proxyUrl || '/api');
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown translation provider: ${config.provider}`);
+  }
+}
@@ -0,0 +1,69 @@
+import { TranslationProvider, ProviderRequest } from './types';
+import { TranslationError } from '../errors';
+import { sleep } from '../retry';
+import { SOURCE_LANGUAGE_INSTRUCTION, SOURCE_LANGUAGE_PREFIX } from '../sourceLanguage';
+
+export interface MockProviderOptions {
+  // Produces the full response for a request; defaults to a tidied echo of the input
+  reply?: (request: ProviderRequest) => string;
+  chunkDelayMs?: number;
+}
+
+const INPUT_MARKER = '---\n';
+
+function tidy(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  if (!collapsed) return '';
+  const capitalized = collapsed.charAt(0).toUpperCase() + collapsed.slice(1);
+  return /[.!?]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+}
+
+function textAfterMarker(prompt: string): string {
+  const markerIndex = prompt.lastIndexOf(INPUT_MARKER);
+  return markerIndex === -1 ? prompt : prompt.slice(markerIndex + INPUT_MARKER.length);
+}
+
+// Returns the thought the prompt asks to translate, cleaned up the way a real model might.
+// Follow-up turns repeat the previous answer tagged with the latest instruction.
+// When JSON is requested the answer is wrapped in the structured output format.
+export function tidyEcho(request: ProviderRequest): string {
+  const messages = request.messages;
+  const latest = textAfterMarker(messages[messages.length - 1]?.text ?? '');
+  const previousAnswer = [...messages].reverse().find(message => message.role === 'model');
+  if (!previousAnswer) {
+    if (request.responseFormat === 'json') {
+      const rewrite = tidy(latest);
+      return JSON.stringify(rewrite
+        ? { status: 'ok', sourceLanguage: 'English', rewrite, questions: [], backTranslation: rewrite }
+        : { status: 'needs_clarification', sourceLanguage: 'English', rewrite: '', questions: ["What would you like to say?"] });
+    }
+    // The mock can't detect languages, so it always reports English when asked
+    const asksForLanguage = messages[messages.length - 1]?.text.includes(SOURCE_LANGUAGE_INSTRUCTION);
+    return asksForLanguage ? `${SOURCE_LANGUAGE_PREFIX} English\n${tidy(latest)}` : tidy(latest);
+  }
+  return `${previousAnswer.text} [${latest.trim()}]`;
+}
+
+// Splits text into word-sized chunks, keeping whitespace attached so chunks join back losslessly.
+export function splitIntoChunks(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+// Deterministic provider that streams canned chunks without a key or network access.
+export function createMockProvider(options: MockProviderOptions = {}): TranslationProvider {
+  const { reply = tidyEcho, chunkDelayMs = 30 } = options;
+
+  return {
+    id: 'mock',
+    async *generateStream(request: ProviderRequest) {
+      for (const chunk of splitIntoChunks(reply(request))) {
+        if (chunkDelayMs > 0) {
+          await sleep(chunkDelayMs, request.signal);
+        } else if (request.signal?.aborted) {
+          throw new TranslationError('aborted', "Translation stopped");
+        }
+        yield chunk;
+      }
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { TranslationProvider, ProviderRequest } from './types';
+import { TranslationError, errorFromStatus, parseRetryAfter, toTranslationError } from '../errors';
+
+// Works with any server exposing the OpenAI `/chat/completions` streaming API,
+// including local ones such as Ollama (http://localhost:11434/v1) or llama.cpp.
+export function createOpenAICompatibleProvider(baseUrl: string, apiKey?: string): TranslationProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'openai',
+    async *generateStream(request: ProviderRequest) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers,
+          signal: request.signal,
+          body: JSON.stringify({
+            model: request.model,
+            temperature: request.temperature,
+            top_p: request.topP,
+            stream: true,
+            // Asks for a final chunk with token counts; servers without support ignore it
+            stream_options: { include_usage: true },
+            ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+            messages: [
+              { role: 'system', content: request.systemInstruction },
+              ...request.messages.map(message => ({
+                role: message.role === 'model' ? 'assistant' : 'user',
+                content: message.text,
+              })),
+            ],
+          }),
+        });
+      } catch (error) {
+        throw toTranslationError(error);
+      }
+
+      if (!response.ok || !response.body) {
+        throw errorFromStatus(response.status, `Request to ${endpoint} failed with status ${response.status}`, parseRetryAfter(response.headers.get('Retry-After')));
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          throw toTranslationError(error);
+        }
+        const { done, value } = chunk;
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Server-sent events are newline delimited; keep any partial line for the next read
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+          const payload = data.slice('data:'.length).trim();
+          if (payload === '[DONE]') return;
+
+          let event;
+          try {
+            event = JSON.parse(payload);
+          } catch {
+            throw new TranslationError('malformed', "The server sent a stream event that is not valid JSON");
+          }
+          if (event.usage) {
+            request.onUsage?.({ promptTokens: event.usage.prompt_tokens ?? 0, responseTokens: event.usage.completion_tokens ?? 0 });
+          }
+          const choice = event.choices?.[0];
+          if (choice?.finish_reason === 'content_filter') {
+            throw new TranslationError('safety', "Response blocked by the server's content filter");
+          }
+          const content = choice?.delta?.content;
+          if (content) {
+            yield content as string;
+          }
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { TranslationProvider, ProviderRequest } from './types';
+import { TranslationError, TranslationErrorKind, errorFromStatus, parseRetryAfter, toTranslationError } from '../errors';
+
+// What the browser sends to the proxy: the provider request without the callbacks
+export type ProxyRequestBody = Omit<ProviderRequest, 'signal' | 'onUsage'>;
+
+// Server-sent events from the proxy. Text chunks use the default `message` event;
+// `usage`, `error` and `done` are named events.
+export interface ProxyErrorEvent {
+  kind: TranslationErrorKind;
+  message: string;
+}
+
+// Streams through the backend in server/, which holds the API key, so no key is shipped to the browser.
+export function createProxyProvider(baseUrl: string): TranslationProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/translate`;
+
+  return {
+    id: 'proxy',
+    async *generateStream(request: ProviderRequest) {
+      const { signal, onUsage, ...body } = request;
+
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+          signal,
+          body: JSON.stringify(body satisfies ProxyRequestBody),
+        });
+      } catch (error) {
+        throw toTranslationError(error);
+      }
+
+      if (!response.ok || !response.body) {
+        // Errors before the stream starts come back as JSON with a message
+        const details = await response.json().catch(() => null);
+        // The proxy's rate limiter says when it will take requests again
+        throw errorFromStatus(response.status, details?.error ?? `Request to ${endpoint} failed with status ${response.status}`, parseRetryAfter(response.headers.get('Retry-After')));
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          throw toTranslationError(error);
+        }
+        const { done, value } = chunk;
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line; keep any partial event for the next read
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+
+        for (const raw of events) {
+          let name = 'message';
+          let data = '';
+          for (const line of raw.split('\n')) {
+            if (line.startsWith('event:')) name = line.slice('event:'.length).trim();
+            else if (line.startsWith('data:')) data += line.slice('data:'.length).trim();
+          }
+          if (!data) continue;
+
+          const payload = JSON.parse(data);
+          switch (name) {
+            case 'message':
+              if (payload.text) yield payload.text as string;
+              break;
+            case 'usage':
+              onUsage?.(payload);
+              break;
+            case 'error': {
+              const { kind, message } = payload as ProxyErrorEvent;
+              throw new TranslationError(kind, message);
+            }
+            case 'done':
+              return;
+          }
+        }
+      }
+      // A stream cut off before `done` means the server went away mid-answer
+      throw new TranslationError('network', "The translation server closed the connection early");
+    },
+  };
+}
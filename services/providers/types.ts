@@ -0,0 +1,42 @@
+export type ProviderId = 'gemini' | 'openai' | 'proxy' | 'mock';
+
+export interface TranslationConfig {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  topP: number;
+  // Used by the OpenAI-compatible provider (OpenAI, Ollama, llama.cpp, ...)
+  baseUrl?: string;
+  apiKey?: string;
+  // Where the backend proxy in server/ is reachable, e.g. `/api` or `https://translate.example.com/api`
+  proxyUrl?: string;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface ProviderRequest {
+  systemInstruction: string;
+  // The conversation so far, ending with the user's latest message
+  messages: ChatMessage[];
+  model: string;
+  temperature: number;
+  topP: number;
+  signal?: AbortSignal;
+  // 'json' asks the provider to constrain the response to a JSON object where supported
+  responseFormat?: 'text' | 'json';
+  // Called with the token counts the provider reports, usually once the stream ends
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface TranslationProvider {
+  id: ProviderId;
+  generateStream(request: ProviderRequest): AsyncIterable<string>;
+}
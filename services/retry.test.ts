@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TranslationError, parseRetryAfter } from './errors';
+import { RetryOptions, withRetry } from './retry';
+
+const options: RetryOptions = { retries: 3, baseDelayMs: 100, maxDelayMs: 5000 };
+const retryable = (error: TranslationError) => error.retryable;
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('waits as long as Retry-After asks before trying again', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new TranslationError('quota', 'Too many requests', 429, 3000))
+      .mockResolvedValueOnce('done');
+
+    const result = withRetry(operation, retryable, options);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when Retry-After is longer than it would ever wait', async () => {
+    const error = new TranslationError('quota', 'Too many requests', 429, 60_000);
+    const operation = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry(operation, retryable, options)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-01-01T00:00:00Z'));
+
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT')).toBe(5000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
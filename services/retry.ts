@@ -0,0 +1,61 @@
+import { TranslationError, toTranslationError } from './errors';
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+}
+
+export const defaultRetryOptions: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+// Resolves after `ms`, or rejects with an aborted TranslationError as soon as the signal fires.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TranslationError('aborted', "Translation stopped"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TranslationError('aborted', "Translation stopped"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const exponential = options.baseDelayMs * 2 ** attempt;
+  // Equal jitter: half the delay is fixed, half random, so many clients don't retry in lockstep
+  return Math.min(options.maxDelayMs, exponential / 2 + Math.random() * exponential / 2);
+}
+
+// Runs `operation` until it succeeds, the error is not retryable, or retries run out.
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  shouldRetry: (error: TranslationError) => boolean,
+  options: RetryOptions = defaultRetryOptions,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const translationError = toTranslationError(error);
+      // A server that names its own wait is trusted; one longer than we'd ever wait isn't worth retrying
+      const delay = translationError.retryAfterMs ?? backoffDelay(attempt, options);
+      if (attempt >= options.retries || !shouldRetry(translationError) || delay > options.maxDelayMs) {
+        throw translationError;
+      }
+      console.warn(`Translation attempt ${attempt + 1} failed (${translationError.kind}), retrying...`, translationError);
+      await sleep(delay, options.signal);
+    }
+  }
+}
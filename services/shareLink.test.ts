@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { createShareLink, encodeShareFragment, MAX_SHARE_FRAGMENT_LENGTH, parseShareFragment, ShareLinkError, SharedTranslation } from './shareLink';
+import { builtInToneProfiles } from './toneProfiles';
+import { ToneProfile } from '../types';
+
+const shared: SharedTranslation = {
+  input: 'meeting tmrw cant come sry 🙏',
+  output: "Sorry, I can't make it to the meeting tomorrow.",
+  tone: builtInToneProfiles[1],
+  language: 'English',
+  sourceLanguage: 'English',
+};
+
+async function fragmentOf(payload: unknown): Promise<string> {
+  const stream = new Response(JSON.stringify(payload)).body!.pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return '#share=' + btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+describe('share links', () => {
+  it('round-trips a translation through the fragment', async () => {
+    const fragment = await encodeShareFragment(shared);
+
+    expect(fragment).toMatch(/^#share=[A-Za-z0-9_-]+$/);
+    expect(await parseShareFragment(fragment)).toEqual(shared);
+  });
+
+  it('carries custom tones with their guidance', async () => {
+    const tone: ToneProfile = { id: 'abc', name: 'Pirate', guidance: 'Talk like a pirate.', examples: [{ input: 'hi', output: 'Ahoy!' }], updatedAt: 5 };
+
+    const parsed = await parseShareFragment(await encodeShareFragment({ ...shared, tone }));
+
+    expect(parsed?.tone).toMatchObject({ name: 'Pirate', guidance: 'Talk like a pirate.', examples: [{ input: 'hi', output: 'Ahoy!' }] });
+    expect(parsed?.tone.builtIn).toBeUndefined();
+  });
+
+  it('replaces an existing fragment when building a link', async () => {
+    const link = await createShareLink(shared, 'https://example.com/app/?x=1#share=old');
+
+    expect(link.startsWith('https://example.com/app/?x=1#share=')).toBe(true);
+    expect(await parseShareFragment(new URL(link).hash)).toEqual(shared);
+  });
+
+  it('ignores fragments that are not share links', async () => {
+    expect(await parseShareFragment('')).toBeNull();
+    expect(await parseShareFragment('#section-2')).toBeNull();
+  });
+
+  it('rejects damaged links', async () => {
+    await expect(parseShareFragment('#share=not*base64')).rejects.toThrow(ShareLinkError);
+    await expect(parseShareFragment('#share=AAAA')).rejects.toThrow(ShareLinkError);
+    await expect(parseShareFragment(await fragmentOf('just a string'))).rejects.toThrow(ShareLinkError);
+  });
+
+  it('validates the decoded translation', async () => {
+    const valid = { v: 1, input: 'a', output: 'b', tone: 'Professional', language: 'English' };
+
+    await expect(parseShareFragment(await fragmentOf(valid))).resolves.toMatchObject({ output: 'b', tone: { name: 'Professional' } });
+    await expect(parseShareFragment(await fragmentOf({ ...valid, output: '' }))).rejects.toThrow("doesn't contain a valid translation");
+    await expect(parseShareFragment(await fragmentOf({ ...valid, tone: 'No such tone' }))).rejects.toThrow(ShareLinkError);
+    await expect(parseShareFragment(await fragmentOf({ ...valid, tone: { name: 'X', guidance: 1, examples: [] } }))).rejects.toThrow(ShareLinkError);
+    await expect(parseShareFragment(await fragmentOf({ ...valid, language: 42 }))).rejects.toThrow(ShareLinkError);
+    await expect(parseShareFragment(await fragmentOf({ ...valid, v: 2 }))).rejects.toThrow('newer version');
+  });
+
+  it('refuses translations too long for a link', async () => {
+    // Scattered CJK characters barely compress
+    const noise = Array.from({ length: 12000 }, (_, i) => String.fromCharCode(0x4e00 + ((i * 7919) % 20000))).join('');
+
+    await expect(encodeShareFragment({ ...shared, output: noise })).rejects.toThrow('too long to share');
+    await expect(parseShareFragment('#share=' + 'A'.repeat(MAX_SHARE_FRAGMENT_LENGTH))).rejects.toThrow('too long to open');
+  });
+
+  it('refuses links that expand into oversized payloads', async () => {
+    // Repetitive text compresses to a short link but inflates past the limit
+    const fragment = await fragmentOf({ v: 1, input: '', output: 'a'.repeat(200_000), tone: 'Professional', language: 'English' });
+
+    expect(fragment.length).toBeLessThan(MAX_SHARE_FRAGMENT_LENGTH);
+    await expect(parseShareFragment(fragment)).rejects.toThrow('more text than can be opened');
+  });
+});
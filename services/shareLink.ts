@@ -0,0 +1,200 @@
+import { HistoryEntry, ToneProfile } from '../types';
+import { builtInToneProfiles, isToneExample, resolveHistoryTone } from './toneProfiles';
+import { isRecord } from '../utils/typeGuards';
+
+export const SHARE_LINK_VERSION = 1;
+const FRAGMENT_PREFIX = '#share=';
+// Longer URLs get cut off by chat apps and some browsers
+export const MAX_SHARE_FRAGMENT_LENGTH = 8000;
+// Limit on the decompressed payload, so a crafted link can't expand into megabytes
+const MAX_DECODED_BYTES = 64 * 1024;
+const MAX_LANGUAGE_LENGTH = 64;
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+// A translation as it travels in a link: text, tone and language, nothing from the sender's history
+export interface SharedTranslation {
+  input: string;
+  output: string;
+  tone: ToneProfile;
+  language: string;
+  sourceLanguage?: string;
+}
+
+// Built-in tones travel by name; custom ones carry their guidance and examples
+interface SharePayload {
+  v: number;
+  input: string;
+  output: string;
+  tone: string | Pick<ToneProfile, 'name' | 'guidance' | 'examples'>;
+  language: string;
+  sourceLanguage?: string;
+}
+
+export function sharedFromEntry(entry: HistoryEntry): SharedTranslation {
+  return {
+    input: entry.input,
+    output: entry.output,
+    tone: resolveHistoryTone(entry),
+    language: entry.outputLanguage,
+    sourceLanguage: entry.sourceLanguage,
+  };
+}
+
+// A new entry for the recipient's history
+export function sharedToHistoryEntry(shared: SharedTranslation): HistoryEntry {
+  return {
+    id: new Date().toISOString(),
+    input: shared.input,
+    output: shared.output,
+    tone: shared.tone.name,
+    toneProfile: shared.tone,
+    outputLanguage: shared.language,
+    sourceLanguage: shared.sourceLanguage,
+    timestamp: Date.now(),
+  };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) {
+    throw new ShareLinkError("This share link is damaged.");
+  }
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function compress(text: string): Promise<Uint8Array> {
+  const stream = new Response(text).body!.pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Reads chunk by chunk so an oversized payload is rejected without inflating all of it
+async function decompress(bytes: Uint8Array): Promise<string> {
+  const reader = new Response(bytes).body!.pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > MAX_DECODED_BYTES) {
+        await reader.cancel();
+        throw new ShareLinkError("This share link holds more text than can be opened.");
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (error instanceof ShareLinkError) throw error;
+    throw new ShareLinkError("This share link is damaged.");
+  }
+  const joined = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return new TextDecoder().decode(joined);
+}
+
+function toPayload(shared: SharedTranslation): SharePayload {
+  const builtIn = builtInToneProfiles.find(profile => profile.id === shared.tone.id);
+  return {
+    v: SHARE_LINK_VERSION,
+    input: shared.input,
+    output: shared.output,
+    tone: builtIn ? builtIn.name : { name: shared.tone.name, guidance: shared.tone.guidance, examples: shared.tone.examples },
+    language: shared.language,
+    sourceLanguage: shared.sourceLanguage,
+  };
+}
+
+function parseTone(tone: unknown): ToneProfile | null {
+  if (typeof tone === 'string') {
+    return builtInToneProfiles.find(profile => profile.name === tone) ?? null;
+  }
+  if (!isRecord(tone) || typeof tone.name !== 'string' || !tone.name.trim() || typeof tone.guidance !== 'string'
+    || !Array.isArray(tone.examples) || !tone.examples.every(isToneExample)) {
+    return null;
+  }
+  return {
+    // Stable per name, so opening the same link twice doesn't add two tones
+    id: `shared-${tone.name.trim()}`,
+    name: tone.name.trim(),
+    guidance: tone.guidance,
+    examples: tone.examples.map(example => ({ input: example.input, output: example.output })),
+    updatedAt: 0,
+  };
+}
+
+function fromPayload(data: unknown): SharedTranslation {
+  if (!isRecord(data)) {
+    throw new ShareLinkError("This share link is damaged.");
+  }
+  if (typeof data.v !== 'number' || data.v > SHARE_LINK_VERSION) {
+    throw new ShareLinkError("This share link was made by a newer version of the app.");
+  }
+  const tone = parseTone(data.tone);
+  if (typeof data.input !== 'string'
+    || typeof data.output !== 'string' || !data.output.trim()
+    || typeof data.language !== 'string' || !data.language.trim() || data.language.length > MAX_LANGUAGE_LENGTH
+    || (data.sourceLanguage !== undefined && (typeof data.sourceLanguage !== 'string' || data.sourceLanguage.length > MAX_LANGUAGE_LENGTH))
+    || !tone) {
+    throw new ShareLinkError("This share link doesn't contain a valid translation.");
+  }
+  return {
+    input: data.input,
+    output: data.output,
+    tone,
+    language: data.language.trim(),
+    sourceLanguage: typeof data.sourceLanguage === 'string' ? data.sourceLanguage : undefined,
+  };
+}
+
+export async function encodeShareFragment(shared: SharedTranslation): Promise<string> {
+  const fragment = FRAGMENT_PREFIX + toBase64Url(await compress(JSON.stringify(toPayload(shared))));
+  if (fragment.length > MAX_SHARE_FRAGMENT_LENGTH) {
+    throw new ShareLinkError("This translation is too long to share as a link; copy the text instead.");
+  }
+  return fragment;
+}
+
+// The current page's address with the translation in its fragment, which never reaches a server
+export async function createShareLink(shared: SharedTranslation, pageUrl: string = window.location.href): Promise<string> {
+  const url = new URL(pageUrl);
+  url.hash = '';
+  return url.toString().replace(/#$/, '') + await encodeShareFragment(shared);
+}
+
+// Null when the fragment isn't a share link; throws ShareLinkError when it is one but can't be read
+export async function parseShareFragment(hash: string): Promise<SharedTranslation | null> {
+  if (!hash.startsWith(FRAGMENT_PREFIX)) return null;
+  if (hash.length > MAX_SHARE_FRAGMENT_LENGTH) {
+    throw new ShareLinkError("This share link is too long to open.");
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(hash.slice(FRAGMENT_PREFIX.length));
+  } catch {
+    throw new ShareLinkError("This share link is damaged.");
+  }
+  const json = await decompress(bytes);
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ShareLinkError("This share link is damaged.");
+  }
+  return fromPayload(data);
+}
@@ -0,0 +1,61 @@
+// The model reports the input's language on a header line before the rewrite,
+// which is stripped from the stream before the text reaches the UI.
+export const SOURCE_LANGUAGE_PREFIX = 'Source Language:';
+
+export const SOURCE_LANGUAGE_INSTRUCTION =
+  `Start your response with a single line "${SOURCE_LANGUAGE_PREFIX} <English name of the language the thought is written in>", followed by a newline and then the refined text.`;
+
+export interface SourceLanguageSplit {
+  sourceLanguage?: string;
+  text: string;
+}
+
+// Separates a complete response into the reported language and the rewrite.
+// Responses without the header are returned unchanged.
+export function splitSourceLanguage(response: string): SourceLanguageSplit {
+  const trimmed = response.trimStart();
+  if (!trimmed.toLowerCase().startsWith(SOURCE_LANGUAGE_PREFIX.toLowerCase())) {
+    return { text: response };
+  }
+  const newline = trimmed.indexOf('\n');
+  const header = newline === -1 ? trimmed : trimmed.slice(0, newline);
+  return {
+    sourceLanguage: header.slice(SOURCE_LANGUAGE_PREFIX.length).trim() || undefined,
+    text: newline === -1 ? '' : trimmed.slice(newline + 1).replace(/^\s*\n/, ''),
+  };
+}
+
+// Wraps a chunk callback so the header line is held back until it can be parsed.
+export function stripSourceLanguageHeader(onChunk: (chunk: string) => void): (chunk: string) => void {
+  let pending = '';
+  // 'header' while the header may still be arriving, 'leading' while skipping whitespace after it
+  let state: 'header' | 'leading' | 'body' = 'header';
+  const prefix = SOURCE_LANGUAGE_PREFIX.toLowerCase();
+
+  return (chunk: string) => {
+    if (state === 'body') {
+      onChunk(chunk);
+      return;
+    }
+    if (state === 'leading') {
+      const text = chunk.trimStart();
+      if (text) {
+        state = 'body';
+        onChunk(text);
+      }
+      return;
+    }
+    pending += chunk;
+    const candidate = pending.trimStart().toLowerCase();
+    // As soon as the text can't be the header, release everything as-is
+    if (!candidate.startsWith(prefix) && !prefix.startsWith(candidate)) {
+      state = 'body';
+      onChunk(pending);
+      return;
+    }
+    if (!pending.includes('\n')) return;
+    const text = splitSourceLanguage(pending).text.trimStart();
+    state = text ? 'body' : 'leading';
+    if (text) onChunk(text);
+  };
+}
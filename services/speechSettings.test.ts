@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { chooseVoice, defaultSpeechSettings, matchingVoices, sentenceAt, sentenceRanges } from './speechSettings';
+import { fakeVoice } from '../test/fakeSpeechSynthesis';
+
+const voices = [
+  fakeVoice('fr-local', 'fr-FR'),
+  fakeVoice('gb-local', 'en-GB'),
+  fakeVoice('us-local', 'en_US'),
+  fakeVoice('us-online', 'en-US', false),
+  fakeVoice('au-online', 'en-AU', false),
+];
+
+describe('matchingVoices', () => {
+  it('lists exact matches before other regions, online voices first', () => {
+    expect(matchingVoices(voices, 'en-US').map(voice => voice.voiceURI)).toEqual(['us-online', 'us-local', 'au-online', 'gb-local']);
+  });
+
+  it('falls back to the language prefix when no region matches', () => {
+    expect(matchingVoices(voices, 'fr-CA').map(voice => voice.voiceURI)).toEqual(['fr-local']);
+    expect(matchingVoices(voices, 'de-DE')).toEqual([]);
+  });
+});
+
+describe('chooseVoice', () => {
+  it('uses the remembered voice while it is installed', () => {
+    expect(chooseVoice(voices, 'en-US', { ...defaultSpeechSettings, voices: { 'en-US': 'gb-local' } })?.voiceURI).toBe('gb-local');
+    expect(chooseVoice(voices, 'en-US', { ...defaultSpeechSettings, voices: { 'en-US': 'removed' } })?.voiceURI).toBe('us-online');
+  });
+});
+
+describe('sentenceRanges', () => {
+  it('finds each sentence without the space after it', () => {
+    const text = 'Hi there. How are you?\nFine!';
+    const ranges = sentenceRanges(text, 'en-US');
+    expect(ranges.map(({ start, end }) => text.slice(start, end))).toEqual(['Hi there.', 'How are you?', 'Fine!']);
+    expect(sentenceAt(ranges, 12)).toEqual(ranges[1]);
+    // A boundary in the gap between sentences belongs to the next one
+    expect(sentenceAt(ranges, 9)).toEqual(ranges[1]);
+  });
+});
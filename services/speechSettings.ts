@@ -0,0 +1,86 @@
+const SETTINGS_STORAGE_KEY = 'speechSettings';
+
+export interface SpeechSettings {
+  // 0.5–2, where 1 is the voice's normal speed
+  rate: number;
+  // 0.5–1.5, where 1 is the voice's normal pitch
+  pitch: number;
+  // Chosen voice (its voiceURI) per BCP 47 language code
+  voices: Record<string, string>;
+}
+
+export const defaultSpeechSettings: SpeechSettings = {
+  rate: 1,
+  pitch: 1,
+  voices: {},
+};
+
+export function loadSpeechSettings(): SpeechSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return defaultSpeechSettings;
+    const parsed = JSON.parse(stored);
+    return { ...defaultSpeechSettings, ...parsed, voices: { ...parsed.voices } };
+  } catch (e) {
+    console.error("Failed to load speech settings from localStorage", e);
+    return defaultSpeechSettings;
+  }
+}
+
+export function saveSpeechSettings(settings: SpeechSettings) {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save speech settings to localStorage", e);
+  }
+}
+
+// Some platforms report 'en_US' instead of 'en-US'
+function normalizeLang(lang: string): string {
+  return lang.replace('_', '-').toLowerCase();
+}
+
+// Voices for a language: exact matches first, then voices for the same language in another
+// region (en-GB for en-US). Within each group network voices, often of higher quality, lead.
+export function matchingVoices(voices: SpeechSynthesisVoice[], langCode: string): SpeechSynthesisVoice[] {
+  const wanted = normalizeLang(langCode);
+  const prefix = wanted.split('-')[0];
+  const networkFirst = (a: SpeechSynthesisVoice, b: SpeechSynthesisVoice) => Number(a.localService) - Number(b.localService);
+  const exact = voices.filter(voice => normalizeLang(voice.lang) === wanted).sort(networkFirst);
+  const related = voices.filter(voice => normalizeLang(voice.lang) !== wanted && normalizeLang(voice.lang).split('-')[0] === prefix).sort(networkFirst);
+  return [...exact, ...related];
+}
+
+// The remembered voice for the language if it's still installed, else the best match
+export function chooseVoice(voices: SpeechSynthesisVoice[], langCode: string, settings: SpeechSettings): SpeechSynthesisVoice | undefined {
+  const candidates = matchingVoices(voices, langCode);
+  const preferred = settings.voices[langCode];
+  return candidates.find(voice => voice.voiceURI === preferred) ?? candidates[0];
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Sentence positions in `text`, for highlighting the one being read
+export function sentenceRanges(text: string, lang?: string): TextRange[] {
+  const ranges: TextRange[] = [];
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    for (const { index, segment } of new Intl.Segmenter(lang, { granularity: 'sentence' }).segment(text)) {
+      ranges.push({ start: index, end: index + segment.length });
+    }
+  } else {
+    for (const match of text.matchAll(/[^.!?\n]+(?:[.!?]+|\n|$)\s*/g)) {
+      ranges.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  // Trailing spaces and line breaks aren't part of the highlighted sentence
+  return ranges
+    .map(({ start, end }) => ({ start, end: start + text.slice(start, end).trimEnd().length }))
+    .filter(range => range.end > range.start);
+}
+
+export function sentenceAt(ranges: TextRange[], charIndex: number): TextRange | null {
+  return ranges.find(range => charIndex < range.end) ?? null;
+}
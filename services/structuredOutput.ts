@@ -0,0 +1,117 @@
+import { TranslationError } from './errors';
+import { isRecord } from '../utils/typeGuards';
+
+// In structured mode the model answers with a JSON object instead of bare text, so a
+// request for clarification or a refusal can't be mistaken for a translation.
+export type TranslationStatus = 'ok' | 'needs_clarification' | 'refused';
+
+export interface StructuredResponse {
+  status: TranslationStatus;
+  sourceLanguage?: string;
+  rewrite: string;
+  questions: string[];
+  backTranslation?: string;
+}
+
+const STATUSES: TranslationStatus[] = ['ok', 'needs_clarification', 'refused'];
+
+// "rewrite" comes right after the short fields so it can be streamed while it arrives
+export const STRUCTURED_OUTPUT_RULES = `6.  **Clarification:** If the user's input is too ambiguous or nonsensical to understand, do not guess. Set "status" to "needs_clarification", leave "rewrite" empty and list the questions you would need answered in "questions". If you cannot rewrite the input at all, set "status" to "refused".
+7.  **JSON Output:** Your entire response must be a single JSON object with exactly these keys, in this order, and nothing else (no code fences, no explanations):
+{"status": "ok" | "needs_clarification" | "refused", "sourceLanguage": "<English name of the language the input is written in>", "rewrite": "<the refined text>", "questions": ["<clarifying question>", ...], "backTranslation": "<short, literal translation of the rewrite back into the source language>"}`;
+
+function stripCodeFence(response: string): string {
+  const match = response.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return match ? match[1] : response.trim();
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Parses and validates a complete structured response.
+export function parseStructuredResponse(response: string): StructuredResponse {
+  let data: unknown;
+  try {
+    data = JSON.parse(stripCodeFence(response));
+  } catch {
+    throw new TranslationError('malformed', "The model's response is not valid JSON");
+  }
+  if (!isRecord(data) || !STATUSES.includes(data.status as TranslationStatus)) {
+    throw new TranslationError('malformed', `The model's response has an unexpected status: ${isRecord(data) ? data.status : undefined}`);
+  }
+  return {
+    status: data.status as TranslationStatus,
+    sourceLanguage: optionalString(data.sourceLanguage),
+    rewrite: typeof data.rewrite === 'string' ? data.rewrite.trim() : '',
+    questions: Array.isArray(data.questions)
+      ? data.questions.filter((question: unknown): question is string => typeof question === 'string' && !!question.trim())
+      : [],
+    backTranslation: optionalString(data.backTranslation),
+  };
+}
+
+const REWRITE_KEY = /"rewrite"\s*:\s*"/;
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+// Wraps a chunk callback so only the decoded "rewrite" string of the streamed JSON reaches it.
+// Escape sequences split across chunks are held back until complete.
+export function streamRewriteField(onChunk: (chunk: string) => void): (chunk: string) => void {
+  let buffer = '';
+  // Index in `buffer` of the next unread character of the rewrite, once it has been found
+  let position = -1;
+  let finished = false;
+
+  return (chunk: string) => {
+    if (finished) return;
+    buffer += chunk;
+    if (position === -1) {
+      const match = buffer.match(REWRITE_KEY);
+      if (!match || match.index === undefined) return;
+      position = match.index + match[0].length;
+    }
+
+    let decoded = '';
+    while (position < buffer.length) {
+      const char = buffer[position];
+      if (char === '"') {
+        finished = true;
+        break;
+      }
+      if (char !== '\\') {
+        decoded += char;
+        position++;
+        continue;
+      }
+      const escape = buffer[position + 1];
+      if (escape === undefined) break;
+      if (escape === 'u') {
+        const hex = buffer.slice(position + 2, position + 6);
+        if (hex.length < 4) break;
+        decoded += String.fromCharCode(parseInt(hex, 16));
+        position += 6;
+      } else {
+        decoded += ESCAPES[escape] ?? escape;
+        position += 2;
+      }
+    }
+    if (decoded) onChunk(decoded);
+  };
+}
+
+// What to tell the user when a structured answer isn't a translation
+export const statusGuidance: Record<Exclude<TranslationStatus, 'ok'>, string> = {
+  needs_clarification: "The model needs a little more detail before it can rewrite this.",
+  refused: "The model declined to rewrite this thought.",
+};
+
+// Plain-text results carry no status and count as successful
+export function isSuccessful(result: { status?: TranslationStatus }): boolean {
+  return !result.status || result.status === 'ok';
+}
+
+// Shown in place of a result that came back asking for clarification or refused
+export function unsuccessfulMessage(result: { status?: TranslationStatus; questions?: string[] }): string {
+  const guidance = statusGuidance[result.status as Exclude<TranslationStatus, 'ok'>];
+  return result.questions?.length ? `${guidance} ${result.questions.join(' ')}` : guidance;
+}
@@ -0,0 +1,110 @@
+import { Tone, ToneProfile, ToneExample, HistoryEntry } from '../types';
+import { isRecord } from '../utils/typeGuards';
+
+const STORAGE_KEY = 'toneProfiles';
+
+// The original three tones; their guidance is left empty so their prompts stay unchanged
+export const builtInToneProfiles: ToneProfile[] = Object.values(Tone).map(tone => ({
+  id: tone,
+  name: tone,
+  guidance: '',
+  examples: [],
+  builtIn: true,
+  updatedAt: 0,
+}));
+
+export const defaultToneProfile = builtInToneProfiles[0];
+
+export function createToneProfile(name: string, guidance: string, examples: ToneExample[]): ToneProfile {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    guidance: guidance.trim(),
+    examples,
+    updatedAt: Date.now(),
+  };
+}
+
+export function loadToneProfiles(): ToneProfile[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseToneProfiles(stored) : [];
+  } catch (e) {
+    console.error("Failed to load tone profiles from localStorage", e);
+    return [];
+  }
+}
+
+export function saveToneProfiles(profiles: ToneProfile[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.error("Failed to save tone profiles to localStorage", e);
+  }
+}
+
+export function exportToneProfiles(profiles: ToneProfile[]): string {
+  return JSON.stringify(profiles.filter(profile => !profile.builtIn), null, 2);
+}
+
+export function isToneExample(value: unknown): value is ToneExample {
+  return isRecord(value) && typeof value.input === 'string' && typeof value.output === 'string';
+}
+
+// A complete profile as the app stores it, e.g. the snapshot in a history entry
+export function isToneProfile(value: unknown): value is ToneProfile {
+  return isRecord(value)
+    && typeof value.id === 'string' && value.id !== ''
+    && typeof value.name === 'string'
+    && typeof value.guidance === 'string'
+    && Array.isArray(value.examples) && value.examples.every(isToneExample)
+    && typeof value.updatedAt === 'number'
+    && (value.builtIn === undefined || typeof value.builtIn === 'boolean');
+}
+
+// Validates imported JSON and returns the custom profiles it contains.
+export function parseToneProfiles(json: string): ToneProfile[] {
+  const data = JSON.parse(json);
+  if (!Array.isArray(data)) {
+    throw new Error("Expected a JSON array of tone profiles.");
+  }
+  return data.map((item, index) => {
+    if (!item || typeof item.name !== 'string' || !item.name.trim() || typeof item.guidance !== 'string') {
+      throw new Error(`Tone profile #${index + 1} needs a name and guidance.`);
+    }
+    const examples = item.examples ?? [];
+    if (!Array.isArray(examples) || !examples.every(isToneExample)) {
+      throw new Error(`Tone profile "${item.name}" has invalid examples.`);
+    }
+    return {
+      id: typeof item.id === 'string' && item.id ? item.id : crypto.randomUUID(),
+      name: item.name.trim(),
+      guidance: item.guidance,
+      examples: examples.map((example: ToneExample) => ({ input: example.input, output: example.output })),
+      updatedAt: typeof item.updatedAt === 'number' ? item.updatedAt : Date.now(),
+    };
+  });
+}
+
+// Imported profiles replace existing ones with the same id and are appended otherwise.
+export function mergeToneProfiles(existing: ToneProfile[], imported: ToneProfile[]): ToneProfile[] {
+  const merged = [...existing];
+  for (const profile of imported) {
+    const index = merged.findIndex(p => p.id === profile.id);
+    if (index === -1) {
+      merged.push(profile);
+    } else {
+      merged[index] = profile;
+    }
+  }
+  return merged;
+}
+
+// Finds the tone a history entry was produced with, even if the profile has since changed or been deleted.
+export function resolveHistoryTone(entry: HistoryEntry): ToneProfile {
+  if (entry.toneProfile) {
+    return entry.toneProfile;
+  }
+  return builtInToneProfiles.find(profile => profile.name === entry.tone)
+    ?? { id: `history-${entry.id}`, name: entry.tone, guidance: '', examples: [], updatedAt: entry.timestamp };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CacheEntry, createTranslationCache } from './translationCache';
+
+describe('translation cache', () => {
+  it('reports its size after every change', () => {
+    const onSizeChange = vi.fn();
+    const cache = createTranslationCache({ ttlHours: 1, maxEntries: 2 }, undefined, onSizeChange);
+
+    cache.set('a', { text: 'A.' });
+    cache.set('b', { text: 'B.' });
+    cache.set('c', { text: 'C.' });
+    expect(onSizeChange.mock.calls.map(([size]) => size)).toEqual([1, 2, 2]);
+
+    cache.clear();
+    expect(onSizeChange).toHaveBeenLastCalledWith(0);
+  });
+
+  it('reports entries that expired in storage', () => {
+    const stale: CacheEntry = { result: { text: 'Old.' }, createdAt: 0, lastUsedAt: 0 };
+    const onSizeChange = vi.fn();
+
+    const cache = createTranslationCache({ ttlHours: 1, maxEntries: 10 }, { load: () => ({ stale }), save: vi.fn() }, onSizeChange);
+
+    expect(onSizeChange).toHaveBeenCalledWith(0);
+    expect(cache.size()).toBe(0);
+  });
+});
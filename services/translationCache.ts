@@ -0,0 +1,140 @@
+import type { TranslationResult } from './geminiService';
+
+const STORAGE_KEY = 'translationCache';
+const SETTINGS_STORAGE_KEY = 'cacheSettings';
+
+export interface CacheSettings {
+  ttlHours: number;
+  maxEntries: number;
+}
+
+export const defaultCacheSettings: CacheSettings = {
+  ttlHours: 24 * 7,
+  maxEntries: 200,
+};
+
+// What is stored per key: the result without per-call details like usage
+export type CachedResult = Omit<TranslationResult, 'usage' | 'cached'>;
+
+export interface CacheEntry {
+  result: CachedResult;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface TranslationCache {
+  get(key: string): CachedResult | undefined;
+  set(key: string, result: CachedResult): void;
+  clear(): void;
+  size(): number;
+}
+
+// Where entries are kept between sessions; the default keeps them in memory only
+export interface CacheStorage {
+  load(): Record<string, CacheEntry>;
+  save(entries: Record<string, CacheEntry>): void;
+}
+
+export const localStorageCacheStorage: CacheStorage = {
+  load() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (e) {
+      console.error("Failed to load translation cache from localStorage", e);
+      return {};
+    }
+  },
+  save(entries) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (e) {
+      console.error("Failed to save translation cache to localStorage", e);
+    }
+  },
+};
+
+export function loadCacheSettings(): CacheSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...defaultCacheSettings, ...JSON.parse(stored) } : defaultCacheSettings;
+  } catch (e) {
+    console.error("Failed to load cache settings from localStorage", e);
+    return defaultCacheSettings;
+  }
+}
+
+export function saveCacheSettings(settings: CacheSettings) {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save cache settings to localStorage", e);
+  }
+}
+
+// Expired entries are dropped on every access; past the size cap the least recently used go first.
+// onSizeChange hears the entry count after every change, for displays that show it.
+export function createTranslationCache(settings: CacheSettings = defaultCacheSettings, storage?: CacheStorage, onSizeChange?: (size: number) => void): TranslationCache {
+  let entries: Record<string, CacheEntry> = storage?.load() ?? {};
+  const ttlMs = settings.ttlHours * 60 * 60 * 1000;
+
+  const persist = () => {
+    storage?.save(entries);
+    onSizeChange?.(Object.keys(entries).length);
+  };
+
+  const prune = () => {
+    const now = Date.now();
+    const live = Object.entries(entries)
+      .filter(([, entry]) => now - entry.createdAt < ttlMs)
+      .sort(([, a], [, b]) => b.lastUsedAt - a.lastUsedAt)
+      .slice(0, Math.max(0, settings.maxEntries));
+    const changed = live.length !== Object.keys(entries).length;
+    entries = Object.fromEntries(live);
+    return changed;
+  };
+
+  if (prune()) persist();
+
+  return {
+    get(key) {
+      if (prune()) persist();
+      const entry = entries[key];
+      if (!entry) return undefined;
+      entry.lastUsedAt = Date.now();
+      storage?.save(entries);
+      return entry.result;
+    },
+    set(key, result) {
+      const now = Date.now();
+      entries[key] = { result, createdAt: now, lastUsedAt: now };
+      prune();
+      persist();
+    },
+    clear() {
+      entries = {};
+      persist();
+    },
+    size() {
+      return Object.keys(entries).length;
+    },
+  };
+}
+
+// Input whitespace that can't change the translation is ignored; line breaks are kept
+export function normalizeInput(text: string): string {
+  return text.normalize('NFC').replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+}
+
+// 64-bit string hash (two independent 32-bit FNV-1a style lanes), synchronous and available everywhere
+export function hashKey(text: string): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ text.length;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 0x01000193);
+    h2 = Math.imul(h2 ^ code, 0x5bd1e995);
+    h2 ^= h2 >>> 15;
+  }
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { loadUsageLog } from './usage';
+import { UsageRecord } from '../types';
+
+const record: UsageRecord = {
+  timestamp: Date.parse('2026-01-01T00:00:00.000Z'),
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  tone: 'Friendly',
+  language: 'English',
+  promptTokens: 120,
+  responseTokens: 40,
+  latencyMs: 900,
+};
+
+describe('usage log', () => {
+  it('drops stored records that are damaged or from an older shape', () => {
+    localStorage.setItem('usageLog', JSON.stringify([record, { timestamp: 1, tokens: 5 }, null]));
+
+    expect(loadUsageLog()).toEqual([record]);
+  });
+
+  it('ignores a stored value that is not a list', () => {
+    localStorage.setItem('usageLog', JSON.stringify({ records: [record] }));
+
+    expect(loadUsageLog()).toEqual([]);
+  });
+});
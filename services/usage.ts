@@ -0,0 +1,148 @@
+import { UsageRecord } from '../types';
+import { isRecord } from '../utils/typeGuards';
+
+const LOG_STORAGE_KEY = 'usageLog';
+const SETTINGS_STORAGE_KEY = 'usageSettings';
+// Older calls are dropped from the log so it stays small
+const LOG_RETENTION_DAYS = 90;
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageSettings {
+  prices: Record<string, ModelPrice>;
+  // Soft limit in USD per day; 0 means no budget
+  dailyBudget: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  responseTokens: number;
+  cost: number;
+  // Averages over the calls in the group
+  averageLatencyMs: number;
+  averageFirstChunkMs: number;
+}
+
+export const defaultUsageSettings: UsageSettings = {
+  prices: {
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    mock: { input: 0, output: 0 },
+  },
+  dailyBudget: 0,
+};
+
+// Rough count for providers that don't report usage: about four characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function isUsageRecord(value: unknown): value is UsageRecord {
+  return isRecord(value)
+    && typeof value.timestamp === 'number'
+    && typeof value.provider === 'string'
+    && typeof value.model === 'string'
+    && typeof value.tone === 'string'
+    && typeof value.language === 'string'
+    && typeof value.promptTokens === 'number'
+    && typeof value.responseTokens === 'number'
+    && typeof value.latencyMs === 'number'
+    && (value.firstChunkMs === undefined || typeof value.firstChunkMs === 'number')
+    && (value.estimated === undefined || typeof value.estimated === 'boolean');
+}
+
+export function loadUsageLog(): UsageRecord[] {
+  try {
+    const stored = localStorage.getItem(LOG_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    // Records from an older version or a damaged value are dropped rather than breaking the totals
+    return Array.isArray(parsed) ? parsed.filter(isUsageRecord) : [];
+  } catch (e) {
+    console.error("Failed to load usage log from localStorage", e);
+    return [];
+  }
+}
+
+export function saveUsageLog(records: UsageRecord[]) {
+  const cutoff = Date.now() - LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  try {
+    localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(records.filter(record => record.timestamp >= cutoff)));
+  } catch (e) {
+    console.error("Failed to save usage log to localStorage", e);
+  }
+}
+
+export function loadUsageSettings(): UsageSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return defaultUsageSettings;
+    const parsed = JSON.parse(stored);
+    return { ...defaultUsageSettings, ...parsed, prices: { ...defaultUsageSettings.prices, ...parsed.prices } };
+  } catch (e) {
+    console.error("Failed to load usage settings from localStorage", e);
+    return defaultUsageSettings;
+  }
+}
+
+export function saveUsageSettings(settings: UsageSettings) {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save usage settings to localStorage", e);
+  }
+}
+
+// Models without a price are counted as free
+export function estimateCost(record: UsageRecord, prices: Record<string, ModelPrice>): number {
+  const price = prices[record.model];
+  if (!price) return 0;
+  return (record.promptTokens * price.input + record.responseTokens * price.output) / 1_000_000;
+}
+
+// Local calendar day as `YYYY-MM-DD`
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function totalUsage(records: UsageRecord[], prices: Record<string, ModelPrice>): UsageTotals {
+  const withFirstChunk = records.filter(record => record.firstChunkMs !== undefined);
+  return {
+    requests: records.length,
+    promptTokens: records.reduce((sum, record) => sum + record.promptTokens, 0),
+    responseTokens: records.reduce((sum, record) => sum + record.responseTokens, 0),
+    cost: records.reduce((sum, record) => sum + estimateCost(record, prices), 0),
+    averageLatencyMs: records.length ? records.reduce((sum, record) => sum + record.latencyMs, 0) / records.length : 0,
+    averageFirstChunkMs: withFirstChunk.length
+      ? withFirstChunk.reduce((sum, record) => sum + record.firstChunkMs!, 0) / withFirstChunk.length
+      : 0,
+  };
+}
+
+// Totals per group, largest groups first
+export function groupUsage(records: UsageRecord[], key: (record: UsageRecord) => string, prices: Record<string, ModelPrice>): { key: string; totals: UsageTotals }[] {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const group = key(record);
+    groups.set(group, [...(groups.get(group) ?? []), record]);
+  }
+  return [...groups.entries()]
+    .map(([group, members]) => ({ key: group, totals: totalUsage(members, prices) }))
+    .sort((a, b) => b.totals.requests - a.totals.requests);
+}
+
+export function spentToday(records: UsageRecord[], prices: Record<string, ModelPrice>): number {
+  const today = dayKey(Date.now());
+  return totalUsage(records.filter(record => dayKey(record.timestamp) === today), prices).cost;
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
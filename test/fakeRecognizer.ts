@@ -0,0 +1,30 @@
+import { RecognitionResult, SpeechRecognizer } from '../services/dictation';
+
+export interface FakeRecognizer extends SpeechRecognizer {
+  lang?: string;
+  listening: boolean;
+  // Sends the session's results so far, as a continuous recognizer does on every update
+  emit: (...results: RecognitionResult[]) => void;
+}
+
+export function createFakeRecognizer(): FakeRecognizer {
+  const recognizer: FakeRecognizer = {
+    listening: false,
+    start: (lang) => {
+      recognizer.lang = lang;
+      recognizer.listening = true;
+    },
+    stop: () => {
+      recognizer.listening = false;
+      recognizer.onend?.();
+    },
+    emit: (...results) => recognizer.onresult?.(results),
+    onresult: null,
+    onerror: null,
+    onend: null,
+  };
+  return recognizer;
+}
+
+export const final = (transcript: string): RecognitionResult => ({ transcript, isFinal: true });
+export const interim = (transcript: string): RecognitionResult => ({ transcript, isFinal: false });
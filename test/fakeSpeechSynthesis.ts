@@ -0,0 +1,37 @@
+import { vi } from 'vitest';
+
+export const fakeVoice = (voiceURI: string, lang: string, localService = true) =>
+  ({ voiceURI, name: voiceURI, lang, localService, default: false }) as SpeechSynthesisVoice;
+
+// Just enough of SpeechSynthesisUtterance for the hook to configure it and tests to fire its events
+export class FakeUtterance {
+  text: string;
+  lang = '';
+  rate = 1;
+  pitch = 1;
+  voice: SpeechSynthesisVoice | null = null;
+  onstart: (() => void) | null = null;
+  onboundary: ((event: { charIndex: number }) => void) | null = null;
+  onend: (() => void) | null = null;
+  onerror: ((event: { error: string }) => void) | null = null;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+}
+
+// Replaces window.speechSynthesis, which jsdom lacks; undo with vi.unstubAllGlobals()
+export function installFakeSpeechSynthesis(voices: SpeechSynthesisVoice[] = []) {
+  const spoken: FakeUtterance[] = [];
+  const synthesis = {
+    getVoices: () => voices,
+    speak: vi.fn((utterance: FakeUtterance) => { spoken.push(utterance); }),
+    cancel: vi.fn(),
+    pause: vi.fn(),
+    resume: vi.fn(),
+    onvoiceschanged: null as (() => void) | null,
+  };
+  vi.stubGlobal('speechSynthesis', synthesis);
+  vi.stubGlobal('SpeechSynthesisUtterance', FakeUtterance);
+  return { synthesis, spoken };
+}
@@ -4,11 +4,89 @@ export enum Tone {
   Professional = 'Professional',
 }
 
+export interface ToneExample {
+  input: string;
+  output: string;
+}
+
+export interface ToneProfile {
+  id: string;
+  name: string;
+  guidance: string;
+  examples: ToneExample[];
+  builtIn?: boolean;
+  updatedAt: number;
+}
+
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  // 'protected' terms must stay verbatim; 'mapping' terms have a preferred rendering in one language
+  kind: 'protected' | 'mapping';
+  rendering?: string;
+  language?: string;
+}
+
+// Named set of core rules for the system prompt; the output-format rules are always added after them
+export interface PromptPreset {
+  id: string;
+  name: string;
+  rules: string;
+  // Goes up by one every time the rules are saved, so id and version identify the exact text
+  version: number;
+  builtIn?: boolean;
+  updatedAt: number;
+}
+
+export interface RefinementTurn {
+  instruction: string;
+  output: string;
+  timestamp: number;
+}
+
+// One model call, as measured by the service layer
+export interface UsageRecord {
+  timestamp: number;
+  provider: string;
+  model: string;
+  tone: string;
+  language: string;
+  promptTokens: number;
+  responseTokens: number;
+  // Milliseconds from sending the request to the first streamed chunk and to the end of the stream
+  firstChunkMs?: number;
+  latencyMs: number;
+  // Set when the provider reported no token counts and they were estimated from the text length
+  estimated?: boolean;
+}
+
 export interface HistoryEntry {
   id: string;
   input: string;
   output: string;
-  tone: Tone;
+  // Name of the tone; older entries hold a Tone value
+  tone: string;
+  // Snapshot of the profile as it was when the entry was created
+  toneProfile?: ToneProfile;
   outputLanguage: string;
+  // Language of the input, as chosen by the user or detected by the model
+  sourceLanguage?: string;
   timestamp: number;
+  // All candidates when several variants were generated; `output` holds the chosen one
+  variants?: string[];
+  // Snapshot of the system prompt preset as it was when the entry was created
+  promptPreset?: PromptPreset;
+  // Follow-up refinements; `output` is the latest version and `originalOutput` the first
+  refinements?: RefinementTurn[];
+  originalOutput?: string;
+  // Starred entries are pinned to the top of the history list
+  starred?: boolean;
+  // Literal translation of the output back into the source language, from the self-check
+  backTranslation?: string;
+  // Every model call that went into this entry: the translation, its variants and refinements
+  usage?: UsageRecord[];
+  // Shared by the entries of one input translated into several languages at once
+  groupId?: string;
+  // When the request was queued offline; such entries were sent once the connection returned
+  queuedAt?: number;
 }
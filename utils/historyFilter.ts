@@ -0,0 +1,70 @@
+import { HistoryEntry } from '../types';
+
+export interface HistoryFilters {
+  query: string;
+  tone: string;
+  language: string;
+  // Inclusive `YYYY-MM-DD` bounds in local time; empty means unbounded
+  dateFrom: string;
+  dateTo: string;
+  starredOnly: boolean;
+}
+
+export const emptyHistoryFilters: HistoryFilters = {
+  query: '',
+  tone: '',
+  language: '',
+  dateFrom: '',
+  dateTo: '',
+  starredOnly: false,
+};
+
+export function hasActiveFilters(filters: HistoryFilters): boolean {
+  return Object.entries(filters).some(([key, value]) => value !== emptyHistoryFilters[key as keyof HistoryFilters]);
+}
+
+function startOfDay(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+function matchesQuery(entry: HistoryEntry, terms: string[]): boolean {
+  const haystack = [entry.input, entry.output, ...(entry.refinements ?? []).map(turn => turn.output)]
+    .join('\n')
+    .toLowerCase();
+  return terms.every(term => haystack.includes(term));
+}
+
+// Applies the filters and puts starred entries first, each group newest first.
+export function filterHistory(entries: HistoryEntry[], filters: HistoryFilters): HistoryEntry[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = filters.dateFrom ? startOfDay(filters.dateFrom) : -Infinity;
+  // The upper bound covers the whole selected day
+  const to = filters.dateTo ? startOfDay(filters.dateTo) + 24 * 60 * 60 * 1000 : Infinity;
+
+  return entries
+    .filter(entry =>
+      (!filters.starredOnly || entry.starred) &&
+      (!filters.tone || entry.tone === filters.tone) &&
+      (!filters.language || entry.outputLanguage === filters.language) &&
+      entry.timestamp >= from && entry.timestamp < to &&
+      (terms.length === 0 || matchesQuery(entry, terms))
+    )
+    .sort((a, b) => Number(!!b.starred) - Number(!!a.starred) || b.timestamp - a.timestamp);
+}
+
+// Collects entries that share a group into one list, placed where the first of them appears.
+export function groupHistory(entries: HistoryEntry[]): HistoryEntry[][] {
+  const groups: HistoryEntry[][] = [];
+  const byGroupId = new Map<string, HistoryEntry[]>();
+  for (const entry of entries) {
+    const group = entry.groupId ? byGroupId.get(entry.groupId) : undefined;
+    if (group) {
+      group.push(entry);
+      continue;
+    }
+    const created = [entry];
+    groups.push(created);
+    if (entry.groupId) byGroupId.set(entry.groupId, created);
+  }
+  return groups;
+}
@@ -0,0 +1,57 @@
+export interface Language {
+  name: string;
+  code: string;
+}
+
+export const languages: Language[] = [
+    { name: 'English', code: 'en-US' },
+    { name: 'Spanish', code: 'es-ES' },
+    { name: 'French', code: 'fr-FR' },
+    { name: 'German', code: 'de-DE' },
+    { name: 'Italian', code: 'it-IT' },
+    { name: 'Japanese', code: 'ja-JP' },
+    { name: 'Korean', code: 'ko-KR' },
+    { name: 'Russian', code: 'ru-RU' },
+    { name: 'Chinese (Simplified)', code: 'zh-CN' },
+    { name: 'Arabic', code: 'ar-SA' },
+    { name: 'Bengali', code: 'bn-IN' },
+    { name: 'Czech', code: 'cs-CZ' },
+    { name: 'Danish', code: 'da-DK' },
+    { name: 'Dutch', code: 'nl-NL' },
+    { name: 'Finnish', code: 'fi-FI' },
+    { name: 'Greek', code: 'el-GR' },
+    { name: 'Hebrew', code: 'he-IL' },
+    { name: 'Hindi', code: 'hi-IN' },
+    { name: 'Hungarian', code: 'hu-HU' },
+    { name: 'Indonesian', code: 'id-ID' },
+    { name: 'Norwegian', code: 'no-NO' },
+    { name: 'Polish', code: 'pl-PL' },
+    { name: 'Portuguese', code: 'pt-PT' },
+    { name: 'Romanian', code: 'ro-RO' },
+    { name: 'Slovak', code: 'sk-SK' },
+    { name: 'Swedish', code: 'sv-SE' },
+    { name: 'Thai', code: 'th-TH' },
+    { name: 'Turkish', code: 'tr-TR' },
+    { name: 'Ukrainian', code: 'uk-UA' },
+    { name: 'Vietnamese', code: 'vi-VN' },
+];
+
+export const AUTO_LANGUAGE = 'Auto';
+
+// BCP 47 code for a listed language name, for speech synthesis
+export function languageCode(name: string): string {
+  return languages.find(lang => lang.name === name)?.code ?? 'en-US';
+}
+
+// Picks the speech recognition language: the chosen input language, else the last
+// detected one, else the browser's language if it's one we list.
+export function speechLanguageCode(inputLanguage: string, detectedLanguage?: string): string {
+  const name = inputLanguage === AUTO_LANGUAGE ? detectedLanguage : inputLanguage;
+  const byName = languages.find(lang => lang.name === name);
+  if (byName) return byName.code;
+  const browserCode = navigator.language;
+  const browserPrefix = browserCode.split('-')[0];
+  return languages.find(lang => lang.code === browserCode)?.code
+    ?? languages.find(lang => lang.code.split('-')[0] === browserPrefix)?.code
+    ?? 'en-US';
+}
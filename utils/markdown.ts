@@ -0,0 +1,114 @@
+// A small Markdown subset, enough to preview chat messages and README fragments.
+// Parsing produces plain data so rendering never goes through innerHTML.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'rule' };
+
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*([^*\s](?:.*?[^*\s])?)\*|(?<!\w)_([^_\s](?:.*?[^_\s])?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/g;
+
+// Only links that can't run script are rendered as links
+export function isSafeHref(href: string): boolean {
+  return /^(https?:|mailto:)/i.test(href);
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    if (index > last) nodes.push({ type: 'text', text: text.slice(last, index) });
+    const [whole, code, strong, strongAlt, del, em, emAlt, label, href, url] = match;
+    if (code !== undefined) nodes.push({ type: 'code', text: code });
+    else if (strong !== undefined || strongAlt !== undefined) nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    else if (del !== undefined) nodes.push({ type: 'del', children: parseInline(del) });
+    else if (em !== undefined || emAlt !== undefined) nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    else if (label !== undefined && isSafeHref(href)) nodes.push({ type: 'link', href, children: parseInline(label) });
+    else if (url !== undefined) nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+    else nodes.push({ type: 'text', text: whole });
+    last = index + whole.length;
+  }
+  if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) });
+  return nodes;
+}
+
+const FENCE = /^\s*```(\w*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+
+export function parseMarkdown(markdown: string): BlockNode[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: 'code', language: fence[1], text: code.join('\n') });
+      continue;
+    }
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      continue;
+    }
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(lines[i].match(QUOTE)![1]);
+      i--;
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flushParagraph();
+      const ordered = item[2] !== undefined;
+      const items: InlineNode[][] = [];
+      for (; i < lines.length; i++) {
+        const next = lines[i].match(LIST_ITEM);
+        if (!next || (next[2] !== undefined) !== ordered) break;
+        items.push(parseInline(next[3]));
+      }
+      i--;
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+    paragraph.push(line.trim());
+  }
+  flushParagraph();
+  return blocks;
+}
@@ -0,0 +1,149 @@
+export type DiffPart =
+  | { type: 'equal' | 'insert' | 'delete'; text: string }
+  | { type: 'replace'; removed: string; added: string };
+
+export interface AdditionCheck {
+  // Words in the output that appear nowhere in the input
+  newWords: string[];
+  // Output word count relative to the input; rule 4 asks for a similar length
+  lengthRatio: number;
+}
+
+// Common words that a rewrite legitimately adds when fixing grammar
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'so', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'by', 'from',
+  'is', 'are', 'was', 'were', 'be', 'been', 'am', 'do', 'does', 'did', 'have', 'has', 'had', 'will', 'would',
+  'can', 'could', 'should', 'it', 'its', 'that', 'this', 'these', 'those', 'i', 'me', 'my', 'we', 'our',
+  'you', 'your', 'he', 'she', 'they', 'them', 'their', 'not', 'just', 'very', 'there', 'what', 'which',
+]);
+
+// Longest-common-subsequence tables grow with n*m; past this the middle is treated as one substitution
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Splits text into words with their trailing whitespace so parts join back to the original.
+function tokenize(text: string): string[] {
+  return text.match(/\s*\S+\s*/g) ?? [];
+}
+
+function normalizeWord(token: string): string {
+  return token.trim().toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+}
+
+function pushPart(parts: DiffPart[], type: 'equal' | 'insert' | 'delete', text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+// Adjacent deletions and insertions read better as a single substitution.
+function mergeReplacements(parts: DiffPart[]): DiffPart[] {
+  const merged: DiffPart[] = [];
+  for (const part of parts) {
+    const last = merged[merged.length - 1];
+    if (part.type === 'insert' && last?.type === 'delete') {
+      merged[merged.length - 1] = { type: 'replace', removed: last.text, added: part.text };
+    } else {
+      merged.push(part);
+    }
+  }
+  return merged;
+}
+
+// Word-level diff of `before` against `after`, ignoring differences in surrounding whitespace.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const same = (x: string, y: string) => x.trim() === y.trim();
+
+  let start = 0;
+  while (start < a.length && start < b.length && same(a[start], b[start])) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && same(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) pushPart(parts, 'equal', b.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    pushPart(parts, 'delete', midA.join(''));
+    pushPart(parts, 'insert', midB.join(''));
+  } else {
+    // lengths[i][j] is the LCS length of midA[i..] and midB[j..]
+    const lengths = Array.from({ length: midA.length + 1 }, () => new Array<number>(midB.length + 1).fill(0));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i][j] = same(midA[i], midB[j])
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && same(midA[i], midB[j])) {
+        pushPart(parts, 'equal', midB[j]);
+        i++;
+        j++;
+      } else if (i < midA.length && (j === midB.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        // Deletions go first so they pair up with the following insertion as a substitution
+        pushPart(parts, 'delete', midA[i++]);
+      } else {
+        pushPart(parts, 'insert', midB[j++]);
+      }
+    }
+  }
+
+  if (endB < b.length) pushPart(parts, 'equal', b.slice(endB).join(''));
+  return mergeReplacements(parts);
+}
+
+function countWords(text: string): number {
+  return tokenize(text).length;
+}
+
+// Flags content the rewrite introduced, since the prompt forbids adding new information.
+// Like-for-like substitutions (spelling and grammar fixes) are not counted.
+export function checkAdditions(before: string, after: string, parts: DiffPart[] = diffWords(before, after)): AdditionCheck {
+  const beforeWords = new Set(tokenize(before).map(normalizeWord));
+  const added: string[] = [];
+  for (const part of parts) {
+    if (part.type === 'insert') {
+      added.push(...tokenize(part.text));
+    } else if (part.type === 'replace' && countWords(part.added) > countWords(part.removed)) {
+      added.push(...tokenize(part.added));
+    }
+  }
+  const newWords = [...new Set(added.map(normalizeWord))].filter(word =>
+    word.length > 2 && !beforeWords.has(word) && !FUNCTION_WORDS.has(word)
+  );
+  const beforeCount = countWords(before);
+  return {
+    newWords,
+    lengthRatio: beforeCount === 0 ? 0 : countWords(after) / beforeCount,
+  };
+}
+
+// Share of output words kept verbatim from the input; near zero usually means the languages differ.
+export function sharedWordRatio(parts: DiffPart[]): number {
+  let shared = 0;
+  let total = 0;
+  for (const part of parts) {
+    if (part.type === 'equal') {
+      shared += countWords(part.text);
+      total += countWords(part.text);
+    } else if (part.type === 'insert') {
+      total += countWords(part.text);
+    } else if (part.type === 'replace') {
+      total += countWords(part.added);
+    }
+  }
+  return total === 0 ? 0 : shared / total;
+}
@@ -1,23 +1,41 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With the proxy the keys stay on the server and must not end up in the bundle
+    const usesProxy = env.TRANSLATION_PROVIDER === 'proxy';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // In development the app and the proxy run side by side; see `npm run server`
+        proxy: usesProxy && !env.PROXY_URL ? {
+          '/api': env.PROXY_TARGET || 'http://localhost:8787',
+        } : undefined,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(usesProxy ? undefined : env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_KEY': JSON.stringify(usesProxy ? undefined : env.GEMINI_API_KEY),
+        'process.env.TRANSLATION_PROVIDER': JSON.stringify(env.TRANSLATION_PROVIDER),
+        'process.env.TRANSLATION_MODEL': JSON.stringify(env.TRANSLATION_MODEL),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(usesProxy ? undefined : env.OPENAI_API_KEY),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL),
+        // The service worker caches aggressively, which gets in the way of the dev server
+        'process.env.SERVICE_WORKER': JSON.stringify(mode === 'production')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./test/setup.ts'],
       }
     };
 });